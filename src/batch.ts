@@ -0,0 +1,125 @@
+import { BatchIndex } from "./batchindex";
+import { compress, decompress } from "./compress";
+import { runHashStepsSync } from "./hasher";
+import {
+  BatchEntry,
+  CommitmentProof,
+  ProofSpec,
+} from "./proto/cosmos/ics23/v1/proofs";
+import { bytesEqual, compareBytes } from "./specs";
+
+/*
+Batch proofs prove many keys of one store at once. Entries are kept sorted by
+key with one entry per key, so batches built from the same proofs are equal
+no matter in which order the proofs were given, and compress to equal bytes.
+*/
+
+export interface BatchOptions {
+  // return the compressed form of the batch, see compress
+  readonly compress?: boolean;
+}
+
+// createBatch combines existence, non-existence and batch proofs, compressed
+// or not, into one batch proof. Proofs of the same key are kept once. It
+// throws if two different proofs are given for the same key.
+export function createBatch(
+  proofs: readonly CommitmentProof[],
+  options: BatchOptions = {},
+): CommitmentProof {
+  const entries = new Map<string, BatchEntry>();
+  for (const proof of proofs) {
+    for (const entry of batchEntries(proof)) {
+      const id = toHex(entryKey(entry));
+      const existing = entries.get(id);
+      if (existing && !entriesEqual(existing, entry)) {
+        throw new Error(`Conflicting proofs for key ${id}`);
+      }
+      entries.set(id, entry);
+    }
+  }
+  if (entries.size === 0) {
+    throw new Error("Cannot create a batch without proofs");
+  }
+  return toBatch([...entries.values()], options);
+}
+
+// mergeBatches merges two batch proofs, like createBatch([a, b])
+export function mergeBatches(
+  a: CommitmentProof,
+  b: CommitmentProof,
+  options: BatchOptions = {},
+): CommitmentProof {
+  return createBatch([a, b], options);
+}
+
+// pruneBatch returns a batch with only the entries proving keys: the
+// existence proof of a key, or else the non-existence proof whose neighbors
+// the key falls between, compared as spec compares keys. It throws if proof
+// has no entry for one of the keys.
+export function pruneBatch(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  keys: readonly Uint8Array[],
+  options: BatchOptions = {},
+): CommitmentProof {
+  const index = runHashStepsSync(
+    BatchIndex.buildSteps(
+      { batch: { entries: [...batchEntries(proof)] } },
+      spec,
+    ),
+  );
+  const kept = keys.map((key): BatchEntry => {
+    const exist = index.exist(key);
+    if (exist) {
+      return { exist };
+    }
+    const nonexist = runHashStepsSync(index.nonexistSteps(key));
+    if (!nonexist) {
+      throw new Error(`Batch has no proof for key ${toHex(key)}`);
+    }
+    return { nonexist };
+  });
+  return createBatch([{ batch: { entries: kept } }], options);
+}
+
+function batchEntries(proof: CommitmentProof): readonly BatchEntry[] {
+  const norm = decompress(proof);
+  if (norm.batch) {
+    return norm.batch.entries;
+  }
+  if (norm.exist) {
+    return [{ exist: norm.exist }];
+  }
+  if (norm.nonexist) {
+    return [{ nonexist: norm.nonexist }];
+  }
+  throw new Error("Proof contains no existence or non-existence proof");
+}
+
+function entryKey(entry: BatchEntry): Uint8Array {
+  const key = entry.exist?.key ?? entry.nonexist?.key;
+  if (!key) {
+    throw new Error("Batch entry has no key");
+  }
+  return key;
+}
+
+function entriesEqual(a: BatchEntry, b: BatchEntry): boolean {
+  return bytesEqual(
+    BatchEntry.encode(a).finish(),
+    BatchEntry.encode(b).finish(),
+  );
+}
+
+function toBatch(
+  entries: BatchEntry[],
+  options: BatchOptions,
+): CommitmentProof {
+  entries.sort((a, b) => compareBytes(entryKey(a), entryKey(b)));
+  const proof = { batch: { entries } };
+  return options.compress ? compress(proof) : proof;
+}
+
+function toHex(data: Uint8Array): string {
+  return Array.from(data, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,113 @@
+import { HashSteps } from "./hasher";
+import { keyForComparisonSteps } from "./proofs";
+import {
+  BatchEntry,
+  CommitmentProof,
+  ExistenceProof,
+  NonExistenceProof,
+  ProofSpec,
+} from "./proto/cosmos/ics23/v1/proofs";
+import { bytesBefore } from "./specs";
+
+// NonExistenceRange is the gap between the neighbors of a non-existence
+// proof, as keys for comparison. A missing bound is open.
+interface NonExistenceRange {
+  readonly low?: Uint8Array;
+  readonly high?: Uint8Array;
+  readonly proof: NonExistenceProof;
+}
+
+// BatchIndex finds the entries of a decompressed proof for a key without
+// scanning them all: existence proofs by key, non-existence proofs by binary
+// search over the gaps they prove, which don't overlap in a consistent batch
+export class BatchIndex {
+  private readonly exists: ReadonlyMap<string, ExistenceProof>;
+  private readonly ranges: readonly NonExistenceRange[];
+  private readonly spec: ProofSpec;
+
+  private constructor(
+    exists: ReadonlyMap<string, ExistenceProof>,
+    ranges: readonly NonExistenceRange[],
+    spec: ProofSpec,
+  ) {
+    this.exists = exists;
+    this.ranges = ranges;
+    this.spec = spec;
+  }
+
+  // buildSteps indexes proof, which must not be compressed. Comparing keys
+  // may take hashing, as for specs that prehash keys.
+  static *buildSteps(
+    proof: CommitmentProof,
+    spec: ProofSpec,
+  ): HashSteps<BatchIndex> {
+    const entries: readonly BatchEntry[] = proof.batch?.entries ?? [proof];
+    const exists = new Map<string, ExistenceProof>();
+    const ranges: NonExistenceRange[] = [];
+    for (const { exist, nonexist } of entries) {
+      // the first proof of a key wins, like a linear search would find it
+      if (exist && !exists.has(bytesKey(exist.key))) {
+        exists.set(bytesKey(exist.key), exist);
+      }
+      if (nonexist) {
+        ranges.push({
+          low: nonexist.left
+            ? yield* keyForComparisonSteps(spec, nonexist.left.key)
+            : undefined,
+          high: nonexist.right
+            ? yield* keyForComparisonSteps(spec, nonexist.right.key)
+            : undefined,
+          proof: nonexist,
+        });
+      }
+    }
+    // stable, so equal gaps keep the order of the batch
+    ranges.sort((a, b) =>
+      lowBefore(a.low, b.low) ? -1 : lowBefore(b.low, a.low) ? 1 : 0,
+    );
+    return new BatchIndex(exists, ranges, spec);
+  }
+
+  exist(key: Uint8Array): ExistenceProof | undefined {
+    return this.exists.get(bytesKey(key));
+  }
+
+  // nonexistSteps returns the proof of the gap key falls into, if any
+  *nonexistSteps(key: Uint8Array): HashSteps<NonExistenceProof | undefined> {
+    const target = yield* keyForComparisonSteps(this.spec, key);
+    // find the first gap whose low bound is not before target
+    let lo = 0;
+    let hi = this.ranges.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (lowBefore(this.ranges[mid].low, target)) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    // the gap before it is the last one starting below target
+    const range = this.ranges[lo - 1];
+    if (!range || (range.high && !bytesBefore(target, range.high))) {
+      return undefined;
+    }
+    return range.proof;
+  }
+}
+
+// lowBefore orders low bounds, an open bound before any key
+function lowBefore(a: Uint8Array | undefined, b: Uint8Array | undefined) {
+  if (!b) {
+    return false;
+  }
+  return !a || bytesBefore(a, b);
+}
+
+// bytesKey encodes bytes as a string, one character per byte
+function bytesKey(bytes: Uint8Array): string {
+  let key = "";
+  for (let i = 0; i < bytes.length; i += 4096) {
+    key += String.fromCharCode(...bytes.subarray(i, i + 4096));
+  }
+  return key;
+}
@@ -0,0 +1,266 @@
+import { decompress } from "./compress";
+import {
+  failed,
+  VerificationError,
+  VerificationErrorCode,
+  VerificationResult,
+  verified,
+} from "./errors";
+import { HashSteps, runHashSteps, runHashStepsSync } from "./hasher";
+import {
+  verifyMembershipDetailedSteps,
+  verifyNonMembershipDetailedSteps,
+} from "./ics23";
+import {
+  calculateExistenceRootSteps,
+  CommitmentRoot,
+  VerifyOptions,
+} from "./proofs";
+import {
+  CommitmentProof,
+  ExistenceProof,
+  ProofSpec,
+} from "./proto/cosmos/ics23/v1/proofs";
+
+/*
+Chained proofs prove a key through several nested stores, like the Cosmos SDK
+does with an IAVL proof for the key inside a module store followed by a simple
+Merkle tree proof for the store name inside the app hash.
+
+As in ibc-go's MerkleProof, proofs and specs are ordered from the innermost
+store to the app hash, while keyPath is ordered from the app hash down, e.g.
+[store name, key]. Every hop proves the root computed by the previous one as
+the value of its key, and the last hop must arrive at root.
+*/
+
+// ChainedVerificationResult is a VerificationResult that also tells which
+// hop failed, as an index into proofs. hop is undefined if the arguments
+// don't fit together.
+export type ChainedVerificationResult = VerificationResult & {
+  readonly hop?: number;
+};
+
+export async function verifyChainedMembership(
+  proofs: readonly CommitmentProof[],
+  specs: readonly ProofSpec[],
+  root: CommitmentRoot,
+  keyPath: readonly Uint8Array[],
+  value: Uint8Array,
+  options: VerifyOptions = {},
+): Promise<boolean> {
+  const result = await verifyChainedMembershipDetailed(
+    proofs,
+    specs,
+    root,
+    keyPath,
+    value,
+    options,
+  );
+  return result.ok;
+}
+
+export function verifyChainedMembershipSync(
+  proofs: readonly CommitmentProof[],
+  specs: readonly ProofSpec[],
+  root: CommitmentRoot,
+  keyPath: readonly Uint8Array[],
+  value: Uint8Array,
+  options: VerifyOptions = {},
+): boolean {
+  return verifyChainedMembershipDetailedSync(
+    proofs,
+    specs,
+    root,
+    keyPath,
+    value,
+    options,
+  ).ok;
+}
+
+export async function verifyChainedMembershipDetailed(
+  proofs: readonly CommitmentProof[],
+  specs: readonly ProofSpec[],
+  root: CommitmentRoot,
+  keyPath: readonly Uint8Array[],
+  value: Uint8Array,
+  options: VerifyOptions = {},
+): Promise<ChainedVerificationResult> {
+  return runHashSteps(
+    verifyChainedSteps(proofs, specs, root, keyPath, value, options),
+    options.hasher,
+  );
+}
+
+export function verifyChainedMembershipDetailedSync(
+  proofs: readonly CommitmentProof[],
+  specs: readonly ProofSpec[],
+  root: CommitmentRoot,
+  keyPath: readonly Uint8Array[],
+  value: Uint8Array,
+  options: VerifyOptions = {},
+): ChainedVerificationResult {
+  return runHashStepsSync(
+    verifyChainedSteps(proofs, specs, root, keyPath, value, options),
+    options.hasher,
+  );
+}
+
+// verifyChainedNonMembership proves that the last key of keyPath is absent
+// from the innermost store, and that store is committed to by root
+export async function verifyChainedNonMembership(
+  proofs: readonly CommitmentProof[],
+  specs: readonly ProofSpec[],
+  root: CommitmentRoot,
+  keyPath: readonly Uint8Array[],
+  options: VerifyOptions = {},
+): Promise<boolean> {
+  const result = await verifyChainedNonMembershipDetailed(
+    proofs,
+    specs,
+    root,
+    keyPath,
+    options,
+  );
+  return result.ok;
+}
+
+export function verifyChainedNonMembershipSync(
+  proofs: readonly CommitmentProof[],
+  specs: readonly ProofSpec[],
+  root: CommitmentRoot,
+  keyPath: readonly Uint8Array[],
+  options: VerifyOptions = {},
+): boolean {
+  return verifyChainedNonMembershipDetailedSync(
+    proofs,
+    specs,
+    root,
+    keyPath,
+    options,
+  ).ok;
+}
+
+export async function verifyChainedNonMembershipDetailed(
+  proofs: readonly CommitmentProof[],
+  specs: readonly ProofSpec[],
+  root: CommitmentRoot,
+  keyPath: readonly Uint8Array[],
+  options: VerifyOptions = {},
+): Promise<ChainedVerificationResult> {
+  return runHashSteps(
+    verifyChainedSteps(proofs, specs, root, keyPath, undefined, options),
+    options.hasher,
+  );
+}
+
+export function verifyChainedNonMembershipDetailedSync(
+  proofs: readonly CommitmentProof[],
+  specs: readonly ProofSpec[],
+  root: CommitmentRoot,
+  keyPath: readonly Uint8Array[],
+  options: VerifyOptions = {},
+): ChainedVerificationResult {
+  return runHashStepsSync(
+    verifyChainedSteps(proofs, specs, root, keyPath, undefined, options),
+    options.hasher,
+  );
+}
+
+// verifyChainedSteps proves value at the innermost hop, or the absence of
+// the key there if value is undefined
+export function* verifyChainedSteps(
+  proofs: readonly CommitmentProof[],
+  specs: readonly ProofSpec[],
+  root: CommitmentRoot,
+  keyPath: readonly Uint8Array[],
+  value: Uint8Array | undefined,
+  options: VerifyOptions,
+): HashSteps<ChainedVerificationResult> {
+  if (proofs.length === 0) {
+    return malformed("Chained proof must contain at least one proof");
+  }
+  if (specs.length !== proofs.length) {
+    return malformed(
+      `Got ${specs.length} specs for ${proofs.length} proofs`,
+      specs.length,
+      proofs.length,
+    );
+  }
+  if (keyPath.length !== proofs.length) {
+    return malformed(
+      `Got ${keyPath.length} keys for ${proofs.length} proofs`,
+      keyPath.length,
+      proofs.length,
+    );
+  }
+
+  let current = value;
+  for (let hop = 0; hop < proofs.length; hop++) {
+    const key = keyPath[keyPath.length - 1 - hop];
+    // every hop but the last proves against the root it computes itself,
+    // which the next hop takes as its value
+    let subroot = root;
+    if (hop < proofs.length - 1) {
+      try {
+        subroot = yield* calculateRootSteps(proofs[hop], options);
+      } catch (err) {
+        return { ...failed(err), hop };
+      }
+    }
+    const result =
+      current === undefined
+        ? yield* verifyNonMembershipDetailedSteps(
+            proofs[hop],
+            specs[hop],
+            subroot,
+            key,
+            options,
+          )
+        : yield* verifyMembershipDetailedSteps(
+            proofs[hop],
+            specs[hop],
+            subroot,
+            key,
+            current,
+            options,
+          );
+    if (!result.ok) {
+      return { ...result, hop };
+    }
+    current = subroot;
+  }
+  return verified;
+}
+
+// calculateRootSteps computes the root a proof commits to from its first
+// existence proof, like CommitmentProof.Calculate in the Go implementation
+function* calculateRootSteps(
+  proof: CommitmentProof,
+  options: VerifyOptions,
+): HashSteps<CommitmentRoot> {
+  const norm = decompress(proof, options.limits);
+  const entry = norm.batch?.entries?.[0] ?? norm;
+  const exist: ExistenceProof | undefined =
+    entry.exist ?? entry.nonexist?.left ?? entry.nonexist?.right;
+  if (!exist) {
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Proof contains no existence proof to calculate a root from",
+    );
+  }
+  return yield* calculateExistenceRootSteps(exist);
+}
+
+function malformed(
+  message: string,
+  actual?: number,
+  expected?: number,
+): ChainedVerificationResult {
+  return failed(
+    new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      message,
+      actual === undefined ? {} : { expected, actual },
+    ),
+  );
+}
@@ -0,0 +1,523 @@
+import { BinaryWriter, WireType } from "@bufbuild/protobuf/wire";
+
+import {
+  failed,
+  VerificationError,
+  VerificationErrorCode,
+  VerificationResult,
+  verified,
+} from "./errors";
+import { sha256 } from "./hashes";
+import { hashFromByteSlices } from "./simple";
+import { bytesEqual } from "./specs";
+
+/*
+The CometBFT data structures a light client needs, decoded from the JSON the
+CometBFT RPC returns, and the protobuf encodings CometBFT hashes and signs.
+Encodings follow the gogoproto types of CometBFT v0.34 to v0.38: zero values
+are left out, except for fields gogoproto marks as not nullable.
+*/
+
+// Timestamp is a point in time with nanosecond precision, as in
+// google.protobuf.Timestamp
+export interface Timestamp {
+  readonly seconds: bigint;
+  readonly nanos: number;
+}
+
+export interface PartSetHeader {
+  readonly total: number;
+  readonly hash: Uint8Array;
+}
+
+export interface BlockId {
+  readonly hash: Uint8Array;
+  readonly partSetHeader: PartSetHeader;
+}
+
+export interface BlockHeader {
+  readonly version: { readonly block: bigint; readonly app: bigint };
+  readonly chainId: string;
+  readonly height: bigint;
+  readonly time: Timestamp;
+  readonly lastBlockId: BlockId;
+  readonly lastCommitHash: Uint8Array;
+  readonly dataHash: Uint8Array;
+  readonly validatorsHash: Uint8Array;
+  readonly nextValidatorsHash: Uint8Array;
+  readonly consensusHash: Uint8Array;
+  readonly appHash: Uint8Array;
+  readonly lastResultsHash: Uint8Array;
+  readonly evidenceHash: Uint8Array;
+  readonly proposerAddress: Uint8Array;
+}
+
+export enum BlockIdFlag {
+  UNKNOWN = 0,
+  // the validator did not vote
+  ABSENT = 1,
+  // the validator voted for the committed block
+  COMMIT = 2,
+  // the validator voted for nil
+  NIL = 3,
+}
+
+export interface CommitSig {
+  readonly blockIdFlag: BlockIdFlag;
+  readonly validatorAddress: Uint8Array;
+  readonly timestamp: Timestamp;
+  readonly signature: Uint8Array;
+}
+
+export interface Commit {
+  readonly height: bigint;
+  readonly round: number;
+  readonly blockId: BlockId;
+  // one entry per validator, in the order of the validator set
+  readonly signatures: readonly CommitSig[];
+}
+
+export interface SignedHeader {
+  readonly header: BlockHeader;
+  readonly commit: Commit;
+}
+
+// Validator is a member of a validator set. Only Ed25519 keys are supported.
+export interface Validator {
+  readonly address: Uint8Array;
+  readonly pubKey: Uint8Array;
+  readonly votingPower: bigint;
+}
+
+// LightBlock is a signed header with the validator set that signed it
+export interface LightBlock {
+  readonly signedHeader: SignedHeader;
+  // ordered as in the chain, by voting power and then address
+  readonly validators: readonly Validator[];
+  // the validators of the next block, which the header commits to. Light
+  // clients need them to skip blocks from this one if they differ from
+  // validators.
+  readonly nextValidators?: readonly Validator[];
+}
+
+// precommit is the vote type commits are made of
+const precommitType = 2;
+
+// headerFields encodes every header field the way Header.Hash does, in order
+export function headerFields(header: BlockHeader): Uint8Array[] {
+  const version = new BinaryWriter();
+  writeUint64(version, 1, header.version.block);
+  writeUint64(version, 2, header.version.app);
+
+  const chainId = new BinaryWriter();
+  if (header.chainId.length > 0) {
+    chainId.tag(1, WireType.LengthDelimited).string(header.chainId);
+  }
+  const height = new BinaryWriter();
+  if (header.height !== 0n) {
+    height.tag(1, WireType.Varint).int64(header.height);
+  }
+
+  return [
+    version.finish(),
+    chainId.finish(),
+    height.finish(),
+    encodeTimestamp(header.time),
+    encodeBlockId(header.lastBlockId),
+    ...[
+      header.lastCommitHash,
+      header.dataHash,
+      header.validatorsHash,
+      header.nextValidatorsHash,
+      header.consensusHash,
+      header.appHash,
+      header.lastResultsHash,
+      header.evidenceHash,
+      header.proposerAddress,
+    ].map(encodeBytesValue),
+  ];
+}
+
+// headerHash is the hash blocks are identified by, the simple Merkle root
+// over the encoded header fields
+export function headerHash(header: BlockHeader): Uint8Array {
+  return hashFromByteSlices(headerFields(header));
+}
+
+// verifyHeaderAppHash checks that header is the block blockHash identifies,
+// by hashing its fields, and that it commits to appHash. A verified app hash
+// can be used as the root for verifyMembership or verifyWebcatProof, pinning
+// it to a block hash from an independent source.
+export function verifyHeaderAppHash(
+  header: BlockHeader,
+  blockHash: Uint8Array,
+  appHash: Uint8Array,
+): VerificationResult {
+  const actual = headerHash(header);
+  if (!bytesEqual(actual, blockHash)) {
+    return failed(
+      new VerificationError(
+        VerificationErrorCode.HEADER_MISMATCH,
+        `Header at height ${header.height} does not hash to the block hash`,
+        { expected: blockHash, actual },
+      ),
+    );
+  }
+  if (!bytesEqual(header.appHash, appHash)) {
+    return failed(
+      new VerificationError(
+        VerificationErrorCode.APP_HASH_MISMATCH,
+        `Header at height ${header.height} commits to another app hash`,
+        { field: "app_hash", expected: appHash, actual: header.appHash },
+      ),
+    );
+  }
+  return verified;
+}
+
+// validatorSetHash is what the validators_hash of a header commits to
+export function validatorSetHash(validators: readonly Validator[]): Uint8Array {
+  return hashFromByteSlices(
+    validators.map((validator) => {
+      const pubKey = new BinaryWriter();
+      pubKey.tag(1, WireType.LengthDelimited).bytes(validator.pubKey);
+      const writer = new BinaryWriter();
+      writer.tag(1, WireType.LengthDelimited).bytes(pubKey.finish());
+      if (validator.votingPower !== 0n) {
+        writer.tag(2, WireType.Varint).int64(validator.votingPower);
+      }
+      return writer.finish();
+    }),
+  );
+}
+
+// validatorAddress derives the address of an Ed25519 key
+export function validatorAddress(pubKey: Uint8Array): Uint8Array {
+  return sha256(pubKey).slice(0, 20);
+}
+
+// voteSignBytes are the bytes the validator at index signed for commit, a
+// length prefixed CanonicalVote
+export function voteSignBytes(
+  chainId: string,
+  commit: Commit,
+  index: number,
+): Uint8Array {
+  const sig = commit.signatures[index];
+  const vote = new BinaryWriter();
+  vote.tag(1, WireType.Varint).int32(precommitType);
+  if (commit.height !== 0n) {
+    vote.tag(2, WireType.Bit64).sfixed64(commit.height);
+  }
+  if (commit.round !== 0) {
+    vote.tag(3, WireType.Bit64).sfixed64(commit.round);
+  }
+  // votes for nil sign no block ID
+  if (sig.blockIdFlag === BlockIdFlag.COMMIT) {
+    const { hash, partSetHeader } = commit.blockId;
+    const blockId = new BinaryWriter();
+    if (hash.length > 0) {
+      blockId.tag(1, WireType.LengthDelimited).bytes(hash);
+    }
+    blockId
+      .tag(2, WireType.LengthDelimited)
+      .bytes(encodePartSetHeader(partSetHeader));
+    vote.tag(4, WireType.LengthDelimited).bytes(blockId.finish());
+  }
+  vote.tag(5, WireType.LengthDelimited).bytes(encodeTimestamp(sig.timestamp));
+  if (chainId.length > 0) {
+    vote.tag(6, WireType.LengthDelimited).string(chainId);
+  }
+  return new BinaryWriter().bytes(vote.finish()).finish();
+}
+
+// parseTimestamp parses the RFC 3339 timestamps CometBFT uses, keeping all
+// nine digits of the fraction
+export function parseTimestamp(time: string): Timestamp {
+  const match =
+    /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/.exec(
+      time,
+    );
+  if (!match) {
+    throw new Error(`Invalid timestamp ${time}`);
+  }
+  const [year, month, day, hour, minute, second] = match
+    .slice(1, 7)
+    .map(Number);
+  if (
+    month < 1 ||
+    month > 12 ||
+    day < 1 ||
+    day > 31 ||
+    hour > 23 ||
+    minute > 59 ||
+    second > 59
+  ) {
+    throw new Error(`Invalid timestamp ${time}`);
+  }
+  const offset =
+    match[8] === "Z"
+      ? 0
+      : (match[8][0] === "-" ? -1 : 1) *
+        (Number(match[8].slice(1, 3)) * 3600 + Number(match[8].slice(4)) * 60);
+  const seconds =
+    daysFromCivil(year, month, day) * 86400 +
+    hour * 3600 +
+    minute * 60 +
+    second -
+    offset;
+  return {
+    seconds: BigInt(seconds),
+    nanos: Number((match[7] ?? "").padEnd(9, "0")),
+  };
+}
+
+export function timestampFromDate(date: Date): Timestamp {
+  const ms = date.getTime();
+  return {
+    seconds: BigInt(Math.floor(ms / 1000)),
+    nanos: (((ms % 1000) + 1000) % 1000) * 1e6,
+  };
+}
+
+export function compareTimestamps(a: Timestamp, b: Timestamp): number {
+  if (a.seconds !== b.seconds) {
+    return a.seconds < b.seconds ? -1 : 1;
+  }
+  return a.nanos - b.nanos;
+}
+
+// lightBlockFromJson decodes a light block as CometBFT encodes it in JSON,
+// {signed_header: {header, commit}, validator_set: {validators}}. The
+// signed_header is what the /commit RPC returns, the validators what
+// /validators returns for the same height. An optional next_validator_set
+// holds what /validators returns for the next height.
+export function lightBlockFromJson(json: unknown): LightBlock {
+  const block = object(json, "light block");
+  const signedHeader = object(block.signed_header, "signed_header");
+  const commit = object(signedHeader.commit, "commit");
+  const validatorSet = object(block.validator_set, "validator_set");
+
+  const signatures = array(commit.signatures, "commit.signatures");
+
+  return {
+    signedHeader: {
+      header: headerFromJson(signedHeader.header),
+      commit: {
+        height: int(commit.height, "commit.height"),
+        round: Number(int(commit.round ?? 0, "commit.round")),
+        blockId: blockId(commit.block_id, "commit.block_id"),
+        signatures: signatures.map((entry, i) => {
+          const sig = object(entry, `commit.signatures[${i}]`);
+          const flag = Number(sig.block_id_flag);
+          if (!(flag in BlockIdFlag) || flag === BlockIdFlag.UNKNOWN) {
+            throw new Error(`Invalid block_id_flag of signature ${i}`);
+          }
+          return {
+            blockIdFlag: flag,
+            validatorAddress: hex(sig.validator_address ?? "", "address"),
+            timestamp: parseTimestamp(
+              string(sig.timestamp, `commit.signatures[${i}].timestamp`),
+            ),
+            signature: base64(sig.signature ?? "", "signature"),
+          };
+        }),
+      },
+    },
+    validators: validatorsFromJson(validatorSet, "validators"),
+    ...(block.next_validator_set === undefined
+      ? {}
+      : {
+          nextValidators: validatorsFromJson(
+            object(block.next_validator_set, "next_validator_set"),
+            "next_validators",
+          ),
+        }),
+  };
+}
+
+// validatorsFromJson decodes the validators of a validator set, checking that
+// their addresses match their keys
+function validatorsFromJson(
+  validatorSet: Record<string, unknown>,
+  name: string,
+): Validator[] {
+  const validators = array(validatorSet.validators, name);
+  return validators.map((entry, i) => {
+    const validator = object(entry, `${name}[${i}]`);
+    const pubKey = object(validator.pub_key, `${name}[${i}].pub_key`);
+    if (pubKey.type !== "tendermint/PubKeyEd25519") {
+      throw new Error(`Unsupported key type ${pubKey.type}`);
+    }
+    const key = base64(pubKey.value, `${name}[${i}].pub_key.value`);
+    if (key.length !== 32) {
+      throw new Error(`Invalid Ed25519 key of validator ${i}`);
+    }
+    const address = hex(validator.address, `${name}[${i}].address`);
+    if (!bytesEqual(address, validatorAddress(key))) {
+      throw new Error(`Address of validator ${i} does not match its key`);
+    }
+    return {
+      address,
+      pubKey: key,
+      votingPower: int(validator.voting_power, "voting_power"),
+    };
+  });
+}
+
+// headerFromJson decodes a header as CometBFT encodes it in JSON, e.g. the
+// header the /header RPC returns
+export function headerFromJson(json: unknown): BlockHeader {
+  const header = object(json, "header");
+  const version = object(header.version, "header.version");
+  return {
+    version: {
+      block: int(version.block, "header.version.block"),
+      app: int(version.app ?? "0", "header.version.app"),
+    },
+    chainId: string(header.chain_id, "header.chain_id"),
+    height: int(header.height, "header.height"),
+    time: parseTimestamp(string(header.time, "header.time")),
+    lastBlockId: blockId(header.last_block_id, "header.last_block_id"),
+    lastCommitHash: hex(header.last_commit_hash, "last_commit_hash"),
+    dataHash: hex(header.data_hash, "data_hash"),
+    validatorsHash: hex(header.validators_hash, "validators_hash"),
+    nextValidatorsHash: hex(
+      header.next_validators_hash,
+      "next_validators_hash",
+    ),
+    consensusHash: hex(header.consensus_hash, "consensus_hash"),
+    appHash: hex(header.app_hash, "app_hash"),
+    lastResultsHash: hex(header.last_results_hash, "last_results_hash"),
+    evidenceHash: hex(header.evidence_hash, "evidence_hash"),
+    proposerAddress: hex(header.proposer_address, "proposer_address"),
+  };
+}
+
+function writeUint64(writer: BinaryWriter, field: number, value: bigint): void {
+  if (value !== 0n) {
+    writer.tag(field, WireType.Varint).uint64(value);
+  }
+}
+
+function encodeTimestamp(time: Timestamp): Uint8Array {
+  const writer = new BinaryWriter();
+  if (time.seconds !== 0n) {
+    writer.tag(1, WireType.Varint).int64(time.seconds);
+  }
+  if (time.nanos !== 0) {
+    writer.tag(2, WireType.Varint).int32(time.nanos);
+  }
+  return writer.finish();
+}
+
+function encodePartSetHeader(header: PartSetHeader): Uint8Array {
+  const writer = new BinaryWriter();
+  if (header.total !== 0) {
+    writer.tag(1, WireType.Varint).uint32(header.total);
+  }
+  if (header.hash.length > 0) {
+    writer.tag(2, WireType.LengthDelimited).bytes(header.hash);
+  }
+  return writer.finish();
+}
+
+// encodeBlockId always includes the part set header, which is not nullable
+function encodeBlockId(blockId: BlockId): Uint8Array {
+  const writer = new BinaryWriter();
+  if (blockId.hash.length > 0) {
+    writer.tag(1, WireType.LengthDelimited).bytes(blockId.hash);
+  }
+  writer
+    .tag(2, WireType.LengthDelimited)
+    .bytes(encodePartSetHeader(blockId.partSetHeader));
+  return writer.finish();
+}
+
+// encodeBytesValue wraps bytes in a google.protobuf.BytesValue
+function encodeBytesValue(value: Uint8Array): Uint8Array {
+  const writer = new BinaryWriter();
+  if (value.length > 0) {
+    writer.tag(1, WireType.LengthDelimited).bytes(value);
+  }
+  return writer.finish();
+}
+
+// daysFromCivil counts the days from 1970-01-01 to a date of the proleptic
+// Gregorian calendar, which Date.UTC gets wrong for years below 100
+function daysFromCivil(year: number, month: number, day: number): number {
+  const y = month <= 2 ? year - 1 : year;
+  const era = Math.floor(y / 400);
+  const yearOfEra = y - era * 400;
+  const dayOfYear =
+    Math.floor((153 * (month + (month > 2 ? -3 : 9)) + 2) / 5) + day - 1;
+  const dayOfEra =
+    yearOfEra * 365 +
+    Math.floor(yearOfEra / 4) -
+    Math.floor(yearOfEra / 100) +
+    dayOfYear;
+  return era * 146097 + dayOfEra - 719468;
+}
+
+function blockId(json: unknown, field: string): BlockId {
+  const id = object(json, field);
+  const parts = object(id.parts, `${field}.parts`);
+  return {
+    hash: hex(id.hash, `${field}.hash`),
+    partSetHeader: {
+      total: Number(int(parts.total, `${field}.parts.total`)),
+      hash: hex(parts.hash, `${field}.parts.hash`),
+    },
+  };
+}
+
+function object(json: unknown, field: string): Record<string, unknown> {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error(`${field} must be an object`);
+  }
+  return json as Record<string, unknown>;
+}
+
+function array(json: unknown, field: string): unknown[] {
+  if (!Array.isArray(json)) {
+    throw new Error(`${field} must be an array`);
+  }
+  return json;
+}
+
+function string(json: unknown, field: string): string {
+  if (typeof json !== "string") {
+    throw new Error(`${field} must be a string`);
+  }
+  return json;
+}
+
+// int parses integers, which CometBFT encodes as strings if they are 64 bit
+function int(json: unknown, field: string): bigint {
+  if (
+    (typeof json === "string" && /^-?\d+$/.test(json)) ||
+    (typeof json === "number" && Number.isSafeInteger(json))
+  ) {
+    return BigInt(json);
+  }
+  throw new Error(`${field} must be an integer`);
+}
+
+function hex(json: unknown, field: string): Uint8Array {
+  const value = string(json, field);
+  if (!/^([0-9a-f]{2})*$/i.test(value)) {
+    throw new Error(`${field} must be hex encoded`);
+  }
+  return Uint8Array.from(value.match(/../g) ?? [], (b) => parseInt(b, 16));
+}
+
+function base64(json: unknown, field: string): Uint8Array {
+  const value = string(json, field);
+  let binary: string;
+  try {
+    binary = atob(value);
+  } catch {
+    throw new Error(`${field} must be base64 encoded`);
+  }
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
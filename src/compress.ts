@@ -1,3 +1,5 @@
+import { VerificationError, VerificationErrorCode } from "./errors";
+import { ensureProofLimits, ProofLimits } from "./limits";
 import {
   BatchProof,
   CommitmentProof,
@@ -8,6 +10,23 @@ import {
   InnerOp,
 } from "./proto/cosmos/ics23/v1/proofs";
 
+// CompressionStats tells how much compressing a proof saved
+export interface CompressionStats {
+  // inner nodes in all paths of the batch, and how many of them differ
+  readonly totalInners: number;
+  readonly uniqueInners: number;
+  // encoded sizes of the proof before and after compression
+  readonly originalBytes: number;
+  readonly compressedBytes: number;
+  // negative if compression made the proof larger
+  readonly bytesSaved: number;
+  // compressedBytes / originalBytes
+  readonly ratio: number;
+}
+
+// compress replaces the inner nodes of a batch proof with indexes into a
+// table of distinct nodes. The result only depends on the batch, so equal
+// batches compress to equal bytes. Other proofs are returned as they are.
 export function compress(proof: CommitmentProof): CommitmentProof {
   if (!proof.batch) {
     return proof;
@@ -15,7 +34,38 @@ export function compress(proof: CommitmentProof): CommitmentProof {
   return { compressed: compressBatch(proof.batch) };
 }
 
-export function decompress(proof: CommitmentProof): CommitmentProof {
+// compressWithStats compresses proof like compress and measures the result
+export function compressWithStats(proof: CommitmentProof): {
+  readonly proof: CommitmentProof;
+  readonly stats: CompressionStats;
+} {
+  const compressed = compress(proof);
+  const originalBytes = CommitmentProof.encode(proof).finish().length;
+  const compressedBytes = CommitmentProof.encode(compressed).finish().length;
+  const totalInners = [proof, ...(proof.batch?.entries ?? [])]
+    .flatMap(({ exist, nonexist }) => [exist, nonexist?.left, nonexist?.right])
+    .reduce((sum, exist) => sum + (exist?.path.length ?? 0), 0);
+  return {
+    proof: compressed,
+    stats: {
+      totalInners,
+      uniqueInners: compressed.compressed?.lookupInners.length ?? totalInners,
+      originalBytes,
+      compressedBytes,
+      bytesSaved: originalBytes - compressedBytes,
+      ratio: originalBytes === 0 ? 1 : compressedBytes / originalBytes,
+    },
+  };
+}
+
+// decompress restores the batch proof compress made. It checks proof against
+// limits first, and throws a VerificationError if they are exceeded or a
+// path refers to an inner node the lookup table doesn't have.
+export function decompress(
+  proof: CommitmentProof,
+  limits: Partial<ProofLimits> = {},
+): CommitmentProof {
+  ensureProofLimits(proof, limits);
   if (!proof.compressed) {
     return proof;
   }
@@ -25,7 +75,8 @@ export function decompress(proof: CommitmentProof): CommitmentProof {
 function compressBatch(proof: BatchProof): CompressedBatchProof {
   const centries: CompressedBatchEntry[] = [];
   const lookup: InnerOp[] = [];
-  const registry = new Map<Uint8Array, number>();
+  // keyed by the hex encoding of each node, so equal nodes share an index
+  const registry = new Map<string, number>();
 
   for (const entry of proof.entries!) {
     if (entry.exist) {
@@ -55,14 +106,14 @@ function compressBatch(proof: BatchProof): CompressedBatchProof {
 function compressExist(
   exist: ExistenceProof | null | undefined,
   lookup: InnerOp[],
-  registry: Map<Uint8Array, number>,
+  registry: Map<string, number>,
 ): CompressedExistenceProof | undefined {
   if (!exist) {
     return undefined;
   }
 
   const path = exist.path!.map((inner: InnerOp) => {
-    const sig = InnerOp.encode(inner).finish();
+    const sig = toHex(InnerOp.encode(inner).finish());
     let idx = registry.get(sig);
     if (idx === undefined) {
       idx = lookup.length;
@@ -95,7 +146,10 @@ function decompressBatch(proof: CompressedBatchProof): BatchProof {
         },
       };
     } else {
-      throw new Error("Unexpected batch entry during compress");
+      throw new VerificationError(
+        VerificationErrorCode.MALFORMED_PROOF,
+        "Unexpected batch entry during compress",
+      );
     }
   });
   return {
@@ -111,6 +165,19 @@ function decompressExist(
     return undefined;
   }
   const { key, value, leaf, path } = exist;
-  const newPath = (path || []).map((idx: number) => lookup[idx]);
+  const newPath = (path || []).map((idx: number, step: number) => {
+    if (!Number.isInteger(idx) || idx < 0 || idx >= lookup.length) {
+      throw new VerificationError(
+        VerificationErrorCode.INVALID_LOOKUP_INDEX,
+        `Path step ${step} refers to inner ${idx} of ${lookup.length}`,
+        { index: step, expected: lookup.length, actual: idx },
+      );
+    }
+    return lookup[idx];
+  });
   return { key, value, leaf, path: newPath };
 }
+
+function toHex(data: Uint8Array): string {
+  return Array.from(data, (b) => b.toString(16).padStart(2, "0")).join("");
+}
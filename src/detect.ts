@@ -0,0 +1,128 @@
+import { decompress } from "./compress";
+import {
+  VerificationError,
+  VerificationErrorCode,
+  VerificationErrorDetail,
+} from "./errors";
+import { ensureDepth, ensureSpec } from "./proofs";
+import {
+  CommitmentProof,
+  ExistenceProof,
+  ProofSpec,
+} from "./proto/cosmos/ics23/v1/proofs";
+import { getSpec, specName, specNames } from "./registry";
+import { ensureInner, ensureLeaf } from "./specs";
+
+// SpecCheck names the part of ensureSpec a failure comes from
+export type SpecCheck = "spec" | "leaf" | "depth" | "inner";
+
+export interface SpecCheckFailure {
+  // index of the existence proof that failed, counting exist, the nonexist
+  // neighbors and the batch entries in that order
+  readonly proof: number;
+  readonly check: SpecCheck;
+  // position in the path of a failed inner check, 0 is closest to the leaf
+  readonly step?: number;
+  readonly code: VerificationErrorCode;
+  readonly detail: VerificationErrorDetail;
+}
+
+export interface SpecCandidateResult {
+  readonly spec: ProofSpec;
+  // the registry name of spec, if it has one
+  readonly name?: string;
+  // empty if the proof satisfies spec
+  readonly failures: readonly SpecCheckFailure[];
+}
+
+export interface SpecDetection {
+  // the candidates the proof satisfies, in the order they were given
+  readonly matches: readonly SpecCandidateResult[];
+  // the candidate with the fewest failed checks, if none matched
+  readonly closest?: SpecCandidateResult;
+}
+
+// detectSpec checks proof against every candidate, the registered specs by
+// default. Only the shape of the proof is checked, as ensureSpec does, so a
+// match still has to be verified against a root.
+export function detectSpec(
+  proof: CommitmentProof,
+  candidates?: readonly ProofSpec[],
+): SpecDetection {
+  const exists = existenceProofs(decompress(proof));
+  if (exists.length === 0) {
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Proof contains no existence proofs",
+    );
+  }
+
+  const specs = candidates ?? specNames().map(getSpec);
+  const results = specs.map((spec): SpecCandidateResult => {
+    const name = specName(spec);
+    const failures = exists.flatMap((exist, i) => checkSpec(exist, spec, i));
+    return name === undefined ? { spec, failures } : { spec, name, failures };
+  });
+
+  const matches = results.filter(({ failures }) => failures.length === 0);
+  if (matches.length > 0 || results.length === 0) {
+    return { matches };
+  }
+  const closest = results.reduce((best, result) =>
+    result.failures.length < best.failures.length ? result : best,
+  );
+  return { matches, closest };
+}
+
+// checkSpec runs the checks of ensureSpec one by one, so that all failures
+// are reported and not just the first
+function checkSpec(
+  exist: ExistenceProof,
+  spec: ProofSpec,
+  proof: number,
+): SpecCheckFailure[] {
+  const failures: SpecCheckFailure[] = [];
+  const check = (name: SpecCheck, fn: () => void, step?: number): void => {
+    try {
+      fn();
+    } catch (err) {
+      if (!(err instanceof VerificationError)) {
+        throw err;
+      }
+      const failure = {
+        proof,
+        check: name,
+        code: err.code,
+        detail: err.detail,
+      };
+      failures.push(step === undefined ? failure : { ...failure, step });
+    }
+  };
+
+  const { leafSpec, innerSpec } = spec;
+  if (!exist.leaf || !leafSpec || !innerSpec) {
+    // ensureSpec reports what is missing
+    check("spec", () => ensureSpec(exist, spec));
+    return failures;
+  }
+  check("leaf", () => ensureLeaf(exist.leaf!, leafSpec));
+  check("depth", () => ensureDepth(exist.path, spec));
+  exist.path.forEach((inner, step) =>
+    check("inner", () => ensureInner(inner, leafSpec.prefix, innerSpec), step),
+  );
+  return failures;
+}
+
+function existenceProofs(proof: CommitmentProof): ExistenceProof[] {
+  const exists = [
+    proof.exist,
+    proof.nonexist?.left,
+    proof.nonexist?.right,
+    ...(proof.batch?.entries ?? []).flatMap((entry) => [
+      entry.exist,
+      entry.nonexist?.left,
+      entry.nonexist?.right,
+    ]),
+  ];
+  return exists.filter((exist): exist is ExistenceProof => !!exist);
+}
@@ -0,0 +1,80 @@
+import { BinaryReader, WireType } from "@bufbuild/protobuf/wire";
+
+import { canonicalizeKey, fromHex, WebcatLeaf } from "./webcat";
+
+// WebcatEnrollment is the decoded value of a canonical webcat leaf
+export interface WebcatEnrollment {
+  // the enrolled domain, without the "canonical/" prefix
+  readonly domain: string;
+  // sha256 of the enrolled policy, field 1 of the leaf value
+  readonly policyHash: Uint8Array;
+}
+
+const policyHashField = 1;
+const policyHashLength = 32;
+
+// decodeWebcatEnrollment decodes the protobuf record a leaf value holds. It
+// throws if the value is not valid hex, is not a valid record or has no
+// policy hash of the right length. Unknown fields are skipped.
+export function decodeWebcatEnrollment(leaf: WebcatLeaf): WebcatEnrollment {
+  const [key, valueHex] = leaf;
+  const domain = canonicalizeKey(key);
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid enrollment for ${domain}: ${reason}`);
+  };
+  if (domain.length === 0) {
+    fail("domain must not be empty");
+  }
+  // reader errors, e.g. on truncated values, become enrollment errors
+  const read = <T>(fn: () => T): T => {
+    try {
+      return fn();
+    } catch (err) {
+      return fail(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const reader = read(() => new BinaryReader(fromHex(valueHex)));
+  let policyHash: Uint8Array | undefined;
+  while (reader.pos < reader.len) {
+    const [fieldNo, wireType] = read(() => reader.tag());
+    if (fieldNo !== policyHashField) {
+      if (wireType === WireType.StartGroup || wireType === WireType.EndGroup) {
+        fail(`unsupported group in field ${fieldNo}`);
+      }
+      read(() => reader.skip(wireType));
+      continue;
+    }
+    if (wireType !== WireType.LengthDelimited) {
+      fail(`policy hash has wire type ${wireType}`);
+    }
+    if (policyHash) {
+      fail("policy hash is repeated");
+    }
+    policyHash = read(() => reader.bytes());
+  }
+  if (!policyHash) {
+    return fail("policy hash is missing");
+  }
+  if (policyHash.length !== policyHashLength) {
+    fail(`policy hash has ${policyHash.length} bytes`);
+  }
+  return { domain, policyHash };
+}
+
+// webcatEnrollments decodes verified leaves, e.g. the result of
+// verifyWebcatProof, into a map keyed by domain. It throws if any value is
+// malformed or a domain is enrolled twice.
+export function webcatEnrollments(
+  leaves: readonly WebcatLeaf[],
+): Map<string, WebcatEnrollment> {
+  const enrollments = new Map<string, WebcatEnrollment>();
+  for (const leaf of leaves) {
+    const enrollment = decodeWebcatEnrollment(leaf);
+    if (enrollments.has(enrollment.domain)) {
+      throw new Error(`Domain ${enrollment.domain} is enrolled twice`);
+    }
+    enrollments.set(enrollment.domain, enrollment);
+  }
+  return enrollments;
+}
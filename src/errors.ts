@@ -0,0 +1,120 @@
+// VerificationErrorCode identifies why a proof was rejected. The values are
+// stable and safe to persist or show to users.
+export enum VerificationErrorCode {
+  // the proof is missing required fields or cannot be evaluated
+  MALFORMED_PROOF = "MALFORMED_PROOF",
+  // the spec itself is incomplete or inconsistent
+  INVALID_SPEC = "INVALID_SPEC",
+  // the proof does not contain an entry for the requested key
+  PROOF_NOT_FOUND = "PROOF_NOT_FOUND",
+  // a hash or length operation is not implemented
+  UNSUPPORTED_OP = "UNSUPPORTED_OP",
+  // data does not have the length its length operation requires
+  INVALID_LENGTH = "INVALID_LENGTH",
+  ROOT_MISMATCH = "ROOT_MISMATCH",
+  KEY_MISMATCH = "KEY_MISMATCH",
+  VALUE_MISMATCH = "VALUE_MISMATCH",
+  LEAF_SPEC_MISMATCH = "LEAF_SPEC_MISMATCH",
+  INNER_SPEC_MISMATCH = "INNER_SPEC_MISMATCH",
+  INNER_HAS_LEAF_PREFIX = "INNER_HAS_LEAF_PREFIX",
+  INNER_PREFIX_TOO_SHORT = "INNER_PREFIX_TOO_SHORT",
+  INNER_PREFIX_TOO_LONG = "INNER_PREFIX_TOO_LONG",
+  DEPTH_TOO_SHALLOW = "DEPTH_TOO_SHALLOW",
+  DEPTH_EXCEEDED = "DEPTH_EXCEEDED",
+  // a non-existence proof has neither a left nor a right neighbor
+  MISSING_NEIGHBORS = "MISSING_NEIGHBORS",
+  // the key does not sort between the neighbors of a non-existence proof
+  KEY_OUT_OF_RANGE = "KEY_OUT_OF_RANGE",
+  NOT_LEFTMOST = "NOT_LEFTMOST",
+  NOT_RIGHTMOST = "NOT_RIGHTMOST",
+  NOT_LEFT_NEIGHBOR = "NOT_LEFT_NEIGHBOR",
+  // an inner node's padding does not match any branch of the spec
+  INVALID_PADDING = "INVALID_PADDING",
+  // a light block belongs to another chain
+  CHAIN_ID_MISMATCH = "CHAIN_ID_MISMATCH",
+  // a commit or block hash is not for its header, or heights or times don't
+  // increase
+  HEADER_MISMATCH = "HEADER_MISMATCH",
+  // a validator set does not match the hash its header commits to
+  VALIDATORS_MISMATCH = "VALIDATORS_MISMATCH",
+  INVALID_SIGNATURE = "INVALID_SIGNATURE",
+  INSUFFICIENT_VOTING_POWER = "INSUFFICIENT_VOTING_POWER",
+  // the trusted block is older than the trusting period
+  TRUST_EXPIRED = "TRUST_EXPIRED",
+  // a header is dated too far after the current time
+  HEADER_FROM_FUTURE = "HEADER_FROM_FUTURE",
+  // a verified header does not commit to the expected app hash
+  APP_HASH_MISMATCH = "APP_HASH_MISMATCH",
+  // a proof exceeds one of its ProofLimits, named in detail.field
+  PROOF_TOO_LARGE = "PROOF_TOO_LARGE",
+  TOO_MANY_ENTRIES = "TOO_MANY_ENTRIES",
+  PATH_TOO_DEEP = "PATH_TOO_DEEP",
+  LOOKUP_TOO_LARGE = "LOOKUP_TOO_LARGE",
+  KEY_TOO_LONG = "KEY_TOO_LONG",
+  VALUE_TOO_LONG = "VALUE_TOO_LONG",
+  // a compressed path refers to an inner node the lookup table doesn't have
+  INVALID_LOOKUP_INDEX = "INVALID_LOOKUP_INDEX",
+  // a snapshot is older than the last accepted one
+  ROLLBACK = "ROLLBACK",
+  // a snapshot differs from the accepted one at the same height
+  SNAPSHOT_CONFLICT = "SNAPSHOT_CONFLICT",
+  // anything else that went wrong, e.g. a custom hasher that threw
+  UNEXPECTED_ERROR = "UNEXPECTED_ERROR",
+}
+
+// VerificationErrorDetail carries the context of a failure. Which fields are
+// set depends on the code.
+export interface VerificationErrorDetail {
+  // human readable description, same as the error message
+  readonly message: string;
+  // the field of an operation or spec that failed, e.g. "hash" or "prefix"
+  readonly field?: string;
+  readonly expected?: Uint8Array | number;
+  readonly actual?: Uint8Array | number;
+  // index of the offending byte or path step
+  readonly index?: number;
+}
+
+export class VerificationError extends Error {
+  readonly code: VerificationErrorCode;
+  readonly detail: VerificationErrorDetail;
+
+  constructor(
+    code: VerificationErrorCode,
+    message: string,
+    detail: Omit<VerificationErrorDetail, "message"> = {},
+  ) {
+    super(message);
+    this.name = "VerificationError";
+    this.code = code;
+    this.detail = { message, ...detail };
+  }
+}
+
+// toVerificationError wraps anything that isn't a VerificationError already
+export function toVerificationError(err: unknown): VerificationError {
+  if (err instanceof VerificationError) {
+    return err;
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return new VerificationError(VerificationErrorCode.UNEXPECTED_ERROR, message);
+}
+
+export type VerificationResult =
+  | {
+      readonly ok: true;
+      readonly code?: undefined;
+      readonly detail?: undefined;
+    }
+  | {
+      readonly ok: false;
+      readonly code: VerificationErrorCode;
+      readonly detail: VerificationErrorDetail;
+    };
+
+export const verified: VerificationResult = { ok: true };
+
+export function failed(err: unknown): VerificationResult {
+  const { code, detail } = toVerificationError(err);
+  return { ok: false, code, detail };
+}
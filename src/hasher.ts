@@ -0,0 +1,200 @@
+import { VerificationError, VerificationErrorCode } from "./errors";
+import {
+  blake2b512,
+  blake2s256,
+  blake3,
+  keccak256,
+  ripemd160,
+  sha256,
+  sha512,
+  sha512_256,
+} from "./hashes";
+import { HashOp } from "./proto/cosmos/ics23/v1/proofs";
+
+// HashFunction digests a preimage, either synchronously or asynchronously
+export type HashFunction = (
+  preimage: Uint8Array,
+) => Uint8Array | Promise<Uint8Array>;
+
+// Hasher maps HashOps to their implementation. Operations left out fall back
+// to the registered hasher, then to the default one.
+export type Hasher = { readonly [op in HashOp]?: HashFunction };
+
+// pureHasher implements every HashOp in TypeScript, without Web Crypto
+export const pureHasher: Hasher = {
+  [HashOp.SHA256]: sha256,
+  [HashOp.SHA512]: sha512,
+  [HashOp.SHA512_256]: sha512_256,
+  [HashOp.KECCAK256]: keccak256,
+  [HashOp.RIPEMD160]: ripemd160,
+  [HashOp.BITCOIN]: (preimage) => ripemd160(sha256(preimage)),
+  [HashOp.BLAKE2B_512]: blake2b512,
+  [HashOp.BLAKE2S_256]: blake2s256,
+  [HashOp.BLAKE3]: blake3,
+};
+
+// webCryptoHasher uses subtle.digest for the algorithms Web Crypto offers and
+// the pure implementations for everything else
+export function webCryptoHasher(subtle: SubtleCrypto): Hasher {
+  const digest =
+    (algorithm: string) =>
+    async (preimage: Uint8Array): Promise<Uint8Array> =>
+      new Uint8Array(await subtle.digest(algorithm, new Uint8Array(preimage)));
+  const webSha256 = digest("SHA-256");
+
+  return {
+    ...pureHasher,
+    [HashOp.SHA256]: webSha256,
+    [HashOp.SHA512]: digest("SHA-512"),
+    [HashOp.BITCOIN]: async (preimage) => ripemd160(await webSha256(preimage)),
+  };
+}
+
+let registeredHasher: Hasher | undefined;
+let cachedDefault: { subtle?: SubtleCrypto; hasher: Hasher } | undefined;
+
+// registerHasher installs a hasher used by every verification that doesn't
+// pass its own. Pass undefined to go back to the default.
+export function registerHasher(hasher: Hasher | undefined): void {
+  registeredHasher = hasher;
+}
+
+// defaultHasher is backed by Web Crypto when the runtime provides it and
+// falls back to the pure implementations otherwise
+export function defaultHasher(): Hasher {
+  const subtle = globalThis.crypto?.subtle;
+  if (!cachedDefault || cachedDefault.subtle !== subtle) {
+    cachedDefault = {
+      subtle,
+      hasher: subtle ? webCryptoHasher(subtle) : pureHasher,
+    };
+  }
+  return cachedDefault.hasher;
+}
+
+// hashFunctionFor resolves the implementation of hashOp, preferring the given
+// hasher, then the registered one, then the default
+export function hashFunctionFor(hashOp: HashOp, hasher?: Hasher): HashFunction {
+  const fn =
+    hasher?.[hashOp] ?? registeredHasher?.[hashOp] ?? defaultHasher()[hashOp];
+  if (!fn) {
+    throw new VerificationError(
+      VerificationErrorCode.UNSUPPORTED_OP,
+      `Unsupported hashop: ${hashOp}`,
+    );
+  }
+  return fn;
+}
+
+// HashRequest asks whoever drives a HashSteps computation for a digest
+export interface HashRequest {
+  readonly hashOp: HashOp;
+  readonly preimage: Uint8Array;
+}
+
+// HashSteps is a computation that yields a HashRequest whenever it needs a
+// digest. Verification logic is written this way once and then driven either
+// asynchronously (runHashSteps) or synchronously (runHashStepsSync).
+export type HashSteps<T> = Generator<HashRequest, T, Uint8Array>;
+
+export function* hashSteps(
+  hashOp: HashOp,
+  preimage: Uint8Array,
+): HashSteps<Uint8Array> {
+  return yield { hashOp, preimage };
+}
+
+// HashCache maps hash requests to digests already computed, see
+// memoizeHashSteps
+export type HashCache = Map<string, Uint8Array>;
+
+// memoizeHashSteps answers the requests of steps that were made before from
+// cache, so a digest needed by many entries of a batch is computed once.
+// Digests are shared between requests and must not be modified.
+export function* memoizeHashSteps<T>(
+  steps: HashSteps<T>,
+  cache: HashCache = new Map(),
+): HashSteps<T> {
+  let next = steps.next();
+  while (!next.done) {
+    const request = next.value;
+    const id = requestKey(request);
+    let digest = cache.get(id);
+    if (!digest) {
+      try {
+        digest = yield request;
+      } catch (err) {
+        next = steps.throw(err);
+        continue;
+      }
+      cache.set(id, digest);
+    }
+    next = steps.next(digest);
+  }
+  return next.value;
+}
+
+// requestKey encodes a request as a string, one character per byte
+function requestKey({ hashOp, preimage }: HashRequest): string {
+  let key = `${hashOp}:`;
+  for (let i = 0; i < preimage.length; i += 4096) {
+    key += String.fromCharCode(...preimage.subarray(i, i + 4096));
+  }
+  return key;
+}
+
+// runHashSteps drives steps to completion, awaiting every digest.
+// Failures to hash are thrown back into the computation, like a rejected await.
+export async function runHashSteps<T>(
+  steps: HashSteps<T>,
+  hasher?: Hasher,
+): Promise<T> {
+  let next = steps.next();
+  while (!next.done) {
+    const { hashOp, preimage } = next.value;
+    let digest: Uint8Array;
+    try {
+      digest = await hashFunctionFor(hashOp, hasher)(preimage);
+    } catch (err) {
+      next = steps.throw(err);
+      continue;
+    }
+    next = steps.next(digest);
+  }
+  return next.value;
+}
+
+// runHashStepsSync drives steps to completion without ever awaiting.
+// Operations the given or registered hasher leave out use pureHasher, as the
+// Web Crypto API is asynchronous only.
+export function runHashStepsSync<T>(steps: HashSteps<T>, hasher?: Hasher): T {
+  let next = steps.next();
+  while (!next.done) {
+    const { hashOp, preimage } = next.value;
+    const fn =
+      hasher?.[hashOp] ?? registeredHasher?.[hashOp] ?? pureHasher[hashOp];
+    if (!fn) {
+      next = steps.throw(
+        new VerificationError(
+          VerificationErrorCode.UNSUPPORTED_OP,
+          `Unsupported hashop: ${hashOp}`,
+        ),
+      );
+      continue;
+    }
+    let digest: Uint8Array | Promise<Uint8Array>;
+    try {
+      digest = fn(preimage);
+    } catch (err) {
+      next = steps.throw(err);
+      continue;
+    }
+    if (digest instanceof Promise) {
+      throw new Error(
+        `Hash function for hashop ${hashOp} is asynchronous, use the async API`,
+      );
+    }
+    next = steps.next(digest);
+  }
+  return next.value;
+}
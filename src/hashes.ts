@@ -0,0 +1,768 @@
+// Pure TypeScript implementations of the hash functions referenced by HashOp.
+// They are synchronous, operate on whole messages and are used wherever the
+// Web Crypto API is unavailable or does not offer the algorithm at all.
+
+const MASK64 = (1n << 64n) - 1n;
+
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_IV = Uint32Array.from([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+]);
+
+const SHA512_K = BigUint64Array.from([
+  0x428a2f98d728ae22n,
+  0x7137449123ef65cdn,
+  0xb5c0fbcfec4d3b2fn,
+  0xe9b5dba58189dbbcn,
+  0x3956c25bf348b538n,
+  0x59f111f1b605d019n,
+  0x923f82a4af194f9bn,
+  0xab1c5ed5da6d8118n,
+  0xd807aa98a3030242n,
+  0x12835b0145706fben,
+  0x243185be4ee4b28cn,
+  0x550c7dc3d5ffb4e2n,
+  0x72be5d74f27b896fn,
+  0x80deb1fe3b1696b1n,
+  0x9bdc06a725c71235n,
+  0xc19bf174cf692694n,
+  0xe49b69c19ef14ad2n,
+  0xefbe4786384f25e3n,
+  0x0fc19dc68b8cd5b5n,
+  0x240ca1cc77ac9c65n,
+  0x2de92c6f592b0275n,
+  0x4a7484aa6ea6e483n,
+  0x5cb0a9dcbd41fbd4n,
+  0x76f988da831153b5n,
+  0x983e5152ee66dfabn,
+  0xa831c66d2db43210n,
+  0xb00327c898fb213fn,
+  0xbf597fc7beef0ee4n,
+  0xc6e00bf33da88fc2n,
+  0xd5a79147930aa725n,
+  0x06ca6351e003826fn,
+  0x142929670a0e6e70n,
+  0x27b70a8546d22ffcn,
+  0x2e1b21385c26c926n,
+  0x4d2c6dfc5ac42aedn,
+  0x53380d139d95b3dfn,
+  0x650a73548baf63den,
+  0x766a0abb3c77b2a8n,
+  0x81c2c92e47edaee6n,
+  0x92722c851482353bn,
+  0xa2bfe8a14cf10364n,
+  0xa81a664bbc423001n,
+  0xc24b8b70d0f89791n,
+  0xc76c51a30654be30n,
+  0xd192e819d6ef5218n,
+  0xd69906245565a910n,
+  0xf40e35855771202an,
+  0x106aa07032bbd1b8n,
+  0x19a4c116b8d2d0c8n,
+  0x1e376c085141ab53n,
+  0x2748774cdf8eeb99n,
+  0x34b0bcb5e19b48a8n,
+  0x391c0cb3c5c95a63n,
+  0x4ed8aa4ae3418acbn,
+  0x5b9cca4f7763e373n,
+  0x682e6ff3d6b2b8a3n,
+  0x748f82ee5defb2fcn,
+  0x78a5636f43172f60n,
+  0x84c87814a1f0ab72n,
+  0x8cc702081a6439ecn,
+  0x90befffa23631e28n,
+  0xa4506cebde82bde9n,
+  0xbef9a3f7b2c67915n,
+  0xc67178f2e372532bn,
+  0xca273eceea26619cn,
+  0xd186b8c721c0c207n,
+  0xeada7dd6cde0eb1en,
+  0xf57d4f7fee6ed178n,
+  0x06f067aa72176fban,
+  0x0a637dc5a2c898a6n,
+  0x113f9804bef90daen,
+  0x1b710b35131c471bn,
+  0x28db77f523047d84n,
+  0x32caab7b40c72493n,
+  0x3c9ebe0a15c9bebcn,
+  0x431d67c49c100d4cn,
+  0x4cc5d4becb3e42b6n,
+  0x597f299cfc657e2an,
+  0x5fcb6fab3ad6faecn,
+  0x6c44198c4a475817n,
+]);
+
+const SHA512_IV = BigUint64Array.from([
+  0x6a09e667f3bcc908n,
+  0xbb67ae8584caa73bn,
+  0x3c6ef372fe94f82bn,
+  0xa54ff53a5f1d36f1n,
+  0x510e527fade682d1n,
+  0x9b05688c2b3e6c1fn,
+  0x1f83d9abfb41bd6bn,
+  0x5be0cd19137e2179n,
+]);
+
+const SHA512_256_IV = BigUint64Array.from([
+  0x22312194fc2bf72cn,
+  0x9f555fa3c84c64c2n,
+  0x2393b86b6f53b151n,
+  0x963877195940eabdn,
+  0x96283ee2a88effe3n,
+  0xbe5e1e2553863992n,
+  0x2b0199fc2c85b8aan,
+  0x0eb72ddc81c52ca2n,
+]);
+
+const KECCAK_RC = BigUint64Array.from([
+  0x0000000000000001n,
+  0x0000000000008082n,
+  0x800000000000808an,
+  0x8000000080008000n,
+  0x000000000000808bn,
+  0x0000000080000001n,
+  0x8000000080008081n,
+  0x8000000000008009n,
+  0x000000000000008an,
+  0x0000000000000088n,
+  0x0000000080008009n,
+  0x000000008000000an,
+  0x000000008000808bn,
+  0x800000000000008bn,
+  0x8000000000008089n,
+  0x8000000000008003n,
+  0x8000000000008002n,
+  0x8000000000000080n,
+  0x000000000000800an,
+  0x800000008000000an,
+  0x8000000080008081n,
+  0x8000000000008080n,
+  0x0000000080000001n,
+  0x8000000080008008n,
+]);
+
+// rotation offsets indexed by lane x + 5 * y
+const KECCAK_RHO = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18,
+  2, 61, 56, 14,
+];
+
+const RIPEMD160_R = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 7, 4, 13, 1, 10, 6, 15,
+  3, 12, 0, 9, 5, 2, 14, 11, 8, 3, 10, 14, 4, 9, 15, 8, 1, 2, 7, 0, 6, 13, 11,
+  5, 12, 1, 9, 11, 10, 0, 8, 12, 4, 13, 3, 7, 15, 14, 5, 6, 2, 4, 0, 5, 9, 7,
+  12, 2, 10, 14, 1, 3, 8, 11, 6, 15, 13,
+];
+
+const RIPEMD160_RP = [
+  5, 14, 7, 0, 9, 2, 11, 4, 13, 6, 15, 8, 1, 10, 3, 12, 6, 11, 3, 7, 0, 13, 5,
+  10, 14, 15, 8, 12, 4, 9, 1, 2, 15, 5, 1, 3, 7, 14, 6, 9, 11, 8, 12, 2, 10, 0,
+  4, 13, 8, 6, 4, 1, 3, 11, 15, 0, 5, 12, 2, 13, 9, 7, 10, 14, 12, 15, 10, 4, 1,
+  5, 8, 7, 6, 2, 13, 14, 0, 3, 9, 11,
+];
+
+const RIPEMD160_S = [
+  11, 14, 15, 12, 5, 8, 7, 9, 11, 13, 14, 15, 6, 7, 9, 8, 7, 6, 8, 13, 11, 9, 7,
+  15, 7, 12, 15, 9, 11, 7, 13, 12, 11, 13, 6, 7, 14, 9, 13, 15, 14, 8, 13, 6, 5,
+  12, 7, 5, 11, 12, 14, 15, 14, 15, 9, 8, 9, 14, 5, 6, 8, 6, 5, 12, 9, 15, 5,
+  11, 6, 8, 13, 12, 5, 12, 13, 14, 11, 8, 5, 6,
+];
+
+const RIPEMD160_SP = [
+  8, 9, 9, 11, 13, 15, 15, 5, 7, 7, 8, 11, 14, 14, 12, 6, 9, 13, 15, 7, 12, 8,
+  9, 11, 7, 7, 12, 7, 6, 15, 13, 11, 9, 7, 15, 11, 8, 6, 6, 14, 12, 13, 5, 14,
+  13, 13, 7, 5, 15, 5, 8, 11, 14, 14, 6, 14, 6, 9, 12, 9, 12, 5, 15, 8, 8, 5,
+  12, 9, 12, 5, 14, 6, 8, 13, 6, 5, 15, 13, 11, 11,
+];
+
+const RIPEMD160_K = [
+  0x00000000, 0x5a827999, 0x6ed9eba1, 0x8f1bbcdc, 0xa953fd4e,
+];
+const RIPEMD160_KP = [
+  0x50a28be6, 0x5c4dd124, 0x6d703ef3, 0x7a6d76e9, 0x00000000,
+];
+
+// message schedule shared by BLAKE2b and BLAKE2s (rounds wrap modulo 10)
+const BLAKE2_SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+const BLAKE3_PERMUTATION = [
+  2, 6, 3, 10, 7, 0, 4, 13, 1, 11, 12, 5, 9, 14, 15, 8,
+];
+const BLAKE3_CHUNK_LEN = 1024;
+const BLAKE3_BLOCK_LEN = 64;
+const BLAKE3_CHUNK_START = 1;
+const BLAKE3_CHUNK_END = 2;
+const BLAKE3_PARENT = 4;
+const BLAKE3_ROOT = 8;
+
+const rotr32 = (x: number, n: number): number => (x >>> n) | (x << (32 - n));
+const rotl32 = (x: number, n: number): number => (x << n) | (x >>> (32 - n));
+const rotr64 = (x: bigint, n: bigint): bigint =>
+  ((x >> n) | (x << (64n - n))) & MASK64;
+const rotl64 = (x: bigint, n: bigint): bigint =>
+  ((x << n) | (x >> (64n - n))) & MASK64;
+
+// mdPad applies Merkle–Damgård strengthening: a single 1 bit, zeros and the
+// message length in bits, stored in the last lengthSize bytes of the final block
+function mdPad(
+  data: Uint8Array,
+  blockSize: number,
+  lengthSize: number,
+  littleEndian: boolean,
+): Uint8Array {
+  const total =
+    Math.ceil((data.length + 1 + lengthSize) / blockSize) * blockSize;
+  const padded = new Uint8Array(total);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bits = BigInt(data.length) * 8n;
+  view.setBigUint64(
+    littleEndian ? total - lengthSize : total - 8,
+    bits,
+    littleEndian,
+  );
+  return padded;
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  const h = Uint32Array.from(SHA256_IV);
+  const w = new Uint32Array(64);
+  const padded = mdPad(data, 64, 8, false);
+  const view = new DataView(padded.buffer);
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 =
+        rotr32(w[i - 15], 7) ^ rotr32(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 =
+        rotr32(w[i - 2], 17) ^ rotr32(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr32(e, 6) ^ rotr32(e, 11) ^ rotr32(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + s1 + ch + SHA256_K[i] + w[i]) | 0;
+      const s0 = rotr32(a, 2) ^ rotr32(a, 13) ^ rotr32(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) | 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word));
+  return out;
+}
+
+function sha512Family(
+  iv: BigUint64Array,
+  data: Uint8Array,
+  outLen: number,
+): Uint8Array {
+  const h = BigUint64Array.from(iv);
+  const w = new BigUint64Array(80);
+  const padded = mdPad(data, 128, 16, false);
+  const view = new DataView(padded.buffer);
+
+  for (let offset = 0; offset < padded.length; offset += 128) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getBigUint64(offset + i * 8);
+    }
+    for (let i = 16; i < 80; i++) {
+      const s0 =
+        rotr64(w[i - 15], 1n) ^ rotr64(w[i - 15], 8n) ^ (w[i - 15] >> 7n);
+      const s1 =
+        rotr64(w[i - 2], 19n) ^ rotr64(w[i - 2], 61n) ^ (w[i - 2] >> 6n);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 80; i++) {
+      const s1 = rotr64(e, 14n) ^ rotr64(e, 18n) ^ rotr64(e, 41n);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + s1 + ch + SHA512_K[i] + w[i]) & MASK64;
+      const s0 = rotr64(a, 28n) ^ rotr64(a, 34n) ^ rotr64(a, 39n);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) & MASK64;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) & MASK64;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) & MASK64;
+    }
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+
+  const out = new Uint8Array(64);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setBigUint64(i * 8, word));
+  return out.slice(0, outLen);
+}
+
+export function sha512(data: Uint8Array): Uint8Array {
+  return sha512Family(SHA512_IV, data, 64);
+}
+
+export function sha512_256(data: Uint8Array): Uint8Array {
+  return sha512Family(SHA512_256_IV, data, 32);
+}
+
+function keccakF1600(state: BigUint64Array): void {
+  const c = new BigUint64Array(5);
+  const b = new BigUint64Array(25);
+  for (let round = 0; round < 24; round++) {
+    // theta
+    for (let x = 0; x < 5; x++) {
+      c[x] =
+        state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1n);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] ^= d;
+      }
+    }
+    // rho and pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(
+          state[x + 5 * y],
+          BigInt(KECCAK_RHO[x + 5 * y]),
+        );
+      }
+    }
+    // chi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] =
+          b[x + y] ^ (~b[((x + 1) % 5) + y] & b[((x + 2) % 5) + y]);
+      }
+    }
+    // iota
+    state[0] ^= KECCAK_RC[round];
+  }
+}
+
+// keccak256 is the original Keccak submission as used by Ethereum,
+// which differs from the standardized SHA3-256 in its padding byte
+export function keccak256(data: Uint8Array): Uint8Array {
+  const rate = 136;
+  const padded = new Uint8Array(Math.floor(data.length / rate + 1) * rate);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new BigUint64Array(25);
+  const view = new DataView(padded.buffer);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let i = 0; i < rate / 8; i++) {
+      state[i] ^= view.getBigUint64(offset + i * 8, true);
+    }
+    keccakF1600(state);
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  for (let i = 0; i < 4; i++) {
+    outView.setBigUint64(i * 8, state[i], true);
+  }
+  return out;
+}
+
+function ripemd160F(j: number, x: number, y: number, z: number): number {
+  if (j < 16) {
+    return x ^ y ^ z;
+  }
+  if (j < 32) {
+    return (x & y) | (~x & z);
+  }
+  if (j < 48) {
+    return (x | ~y) ^ z;
+  }
+  if (j < 64) {
+    return (x & z) | (y & ~z);
+  }
+  return x ^ (y | ~z);
+}
+
+export function ripemd160(data: Uint8Array): Uint8Array {
+  const h = Uint32Array.from([
+    0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0,
+  ]);
+  const x = new Uint32Array(16);
+  const padded = mdPad(data, 64, 8, true);
+  const view = new DataView(padded.buffer);
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      x[i] = view.getUint32(offset + i * 4, true);
+    }
+
+    let [al, bl, cl, dl, el] = h;
+    let [ar, br, cr, dr, er] = h;
+    for (let j = 0; j < 80; j++) {
+      const round = Math.floor(j / 16);
+
+      let t =
+        rotl32(
+          (al +
+            ripemd160F(j, bl, cl, dl) +
+            x[RIPEMD160_R[j]] +
+            RIPEMD160_K[round]) |
+            0,
+          RIPEMD160_S[j],
+        ) + el;
+      al = el;
+      el = dl;
+      dl = rotl32(cl, 10);
+      cl = bl;
+      bl = t | 0;
+
+      t =
+        rotl32(
+          (ar +
+            ripemd160F(79 - j, br, cr, dr) +
+            x[RIPEMD160_RP[j]] +
+            RIPEMD160_KP[round]) |
+            0,
+          RIPEMD160_SP[j],
+        ) + er;
+      ar = er;
+      er = dr;
+      dr = rotl32(cr, 10);
+      cr = br;
+      br = t | 0;
+    }
+
+    const t = h[1] + cl + dr;
+    h[1] = h[2] + dl + er;
+    h[2] = h[3] + el + ar;
+    h[3] = h[4] + al + br;
+    h[4] = h[0] + bl + cr;
+    h[0] = t;
+  }
+
+  const out = new Uint8Array(20);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word, true));
+  return out;
+}
+
+function blake2bCompress(
+  h: BigUint64Array,
+  block: Uint8Array,
+  counter: number,
+  last: boolean,
+): void {
+  const m = new BigUint64Array(16);
+  const blockView = new DataView(block.buffer, block.byteOffset, 128);
+  for (let i = 0; i < 16; i++) {
+    m[i] = blockView.getBigUint64(i * 8, true);
+  }
+
+  const v = new BigUint64Array(16);
+  v.set(h);
+  v.set(SHA512_IV, 8);
+  v[12] ^= BigInt(counter);
+  if (last) {
+    v[14] = ~v[14];
+  }
+
+  const g = (
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    x: bigint,
+    y: bigint,
+  ) => {
+    v[a] = v[a] + v[b] + x;
+    v[d] = rotr64(v[d] ^ v[a], 32n);
+    v[c] = v[c] + v[d];
+    v[b] = rotr64(v[b] ^ v[c], 24n);
+    v[a] = v[a] + v[b] + y;
+    v[d] = rotr64(v[d] ^ v[a], 16n);
+    v[c] = v[c] + v[d];
+    v[b] = rotr64(v[b] ^ v[c], 63n);
+  };
+
+  for (let round = 0; round < 12; round++) {
+    const s = BLAKE2_SIGMA[round % 10];
+    g(0, 4, 8, 12, m[s[0]], m[s[1]]);
+    g(1, 5, 9, 13, m[s[2]], m[s[3]]);
+    g(2, 6, 10, 14, m[s[4]], m[s[5]]);
+    g(3, 7, 11, 15, m[s[6]], m[s[7]]);
+    g(0, 5, 10, 15, m[s[8]], m[s[9]]);
+    g(1, 6, 11, 12, m[s[10]], m[s[11]]);
+    g(2, 7, 8, 13, m[s[12]], m[s[13]]);
+    g(3, 4, 9, 14, m[s[14]], m[s[15]]);
+  }
+
+  for (let i = 0; i < 8; i++) {
+    h[i] ^= v[i] ^ v[i + 8];
+  }
+}
+
+export function blake2b512(data: Uint8Array): Uint8Array {
+  const h = BigUint64Array.from(SHA512_IV);
+  // parameter block: digest length 64, no key, fanout and depth 1
+  h[0] ^= 0x01010040n;
+
+  const blocks = Math.max(1, Math.ceil(data.length / 128));
+  for (let i = 0; i < blocks; i++) {
+    const block = new Uint8Array(128);
+    block.set(data.subarray(i * 128, (i + 1) * 128));
+    const last = i === blocks - 1;
+    const counter = last ? data.length : (i + 1) * 128;
+    blake2bCompress(h, block, counter, last);
+  }
+
+  const out = new Uint8Array(64);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setBigUint64(i * 8, word, true));
+  return out;
+}
+
+function blake2sCompress(
+  h: Uint32Array,
+  block: Uint8Array,
+  counter: number,
+  last: boolean,
+): void {
+  const m = new Uint32Array(16);
+  const blockView = new DataView(block.buffer, block.byteOffset, 64);
+  for (let i = 0; i < 16; i++) {
+    m[i] = blockView.getUint32(i * 4, true);
+  }
+
+  const v = new Uint32Array(16);
+  v.set(h);
+  v.set(SHA256_IV, 8);
+  v[12] ^= counter;
+  v[13] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[14] = ~v[14];
+  }
+
+  for (let round = 0; round < 10; round++) {
+    const s = BLAKE2_SIGMA[round];
+    mix32(v, 0, 4, 8, 12, m[s[0]], m[s[1]]);
+    mix32(v, 1, 5, 9, 13, m[s[2]], m[s[3]]);
+    mix32(v, 2, 6, 10, 14, m[s[4]], m[s[5]]);
+    mix32(v, 3, 7, 11, 15, m[s[6]], m[s[7]]);
+    mix32(v, 0, 5, 10, 15, m[s[8]], m[s[9]]);
+    mix32(v, 1, 6, 11, 12, m[s[10]], m[s[11]]);
+    mix32(v, 2, 7, 8, 13, m[s[12]], m[s[13]]);
+    mix32(v, 3, 4, 9, 14, m[s[14]], m[s[15]]);
+  }
+
+  for (let i = 0; i < 8; i++) {
+    h[i] ^= v[i] ^ v[i + 8];
+  }
+}
+
+// mix32 is the G function shared by BLAKE2s and BLAKE3
+function mix32(
+  v: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  x: number,
+  y: number,
+): void {
+  v[a] = v[a] + v[b] + x;
+  v[d] = rotr32(v[d] ^ v[a], 16);
+  v[c] = v[c] + v[d];
+  v[b] = rotr32(v[b] ^ v[c], 12);
+  v[a] = v[a] + v[b] + y;
+  v[d] = rotr32(v[d] ^ v[a], 8);
+  v[c] = v[c] + v[d];
+  v[b] = rotr32(v[b] ^ v[c], 7);
+}
+
+export function blake2s256(data: Uint8Array): Uint8Array {
+  const h = Uint32Array.from(SHA256_IV);
+  // parameter block: digest length 32, no key, fanout and depth 1
+  h[0] ^= 0x01010020;
+
+  const blocks = Math.max(1, Math.ceil(data.length / 64));
+  for (let i = 0; i < blocks; i++) {
+    const block = new Uint8Array(64);
+    block.set(data.subarray(i * 64, (i + 1) * 64));
+    const last = i === blocks - 1;
+    const counter = last ? data.length : (i + 1) * 64;
+    blake2sCompress(h, block, counter, last);
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word, true));
+  return out;
+}
+
+function blake3Compress(
+  cv: Uint32Array,
+  block: Uint8Array,
+  counter: number,
+  blockLen: number,
+  flags: number,
+): Uint32Array {
+  const padded = new Uint8Array(BLAKE3_BLOCK_LEN);
+  padded.set(block);
+  const blockView = new DataView(padded.buffer);
+  let m = new Uint32Array(16);
+  for (let i = 0; i < 16; i++) {
+    m[i] = blockView.getUint32(i * 4, true);
+  }
+
+  const v = new Uint32Array(16);
+  v.set(cv);
+  v.set(SHA256_IV.subarray(0, 4), 8);
+  v[12] = counter;
+  v[13] = Math.floor(counter / 0x100000000);
+  v[14] = blockLen;
+  v[15] = flags;
+
+  for (let round = 0; round < 7; round++) {
+    mix32(v, 0, 4, 8, 12, m[0], m[1]);
+    mix32(v, 1, 5, 9, 13, m[2], m[3]);
+    mix32(v, 2, 6, 10, 14, m[4], m[5]);
+    mix32(v, 3, 7, 11, 15, m[6], m[7]);
+    mix32(v, 0, 5, 10, 15, m[8], m[9]);
+    mix32(v, 1, 6, 11, 12, m[10], m[11]);
+    mix32(v, 2, 7, 8, 13, m[12], m[13]);
+    mix32(v, 3, 4, 9, 14, m[14], m[15]);
+    m = Uint32Array.from(BLAKE3_PERMUTATION, (i) => m[i]);
+  }
+
+  const out = new Uint32Array(8);
+  for (let i = 0; i < 8; i++) {
+    out[i] = v[i] ^ v[i + 8];
+  }
+  return out;
+}
+
+// blake3Chunk returns the chaining value of a chunk, or its root output
+// when the chunk is the only one in the message
+function blake3Chunk(
+  chunk: Uint8Array,
+  counter: number,
+  root: boolean,
+): Uint32Array {
+  let cv: Uint32Array = SHA256_IV;
+  const blocks = Math.max(1, Math.ceil(chunk.length / BLAKE3_BLOCK_LEN));
+  for (let i = 0; i < blocks; i++) {
+    const block = chunk.subarray(
+      i * BLAKE3_BLOCK_LEN,
+      (i + 1) * BLAKE3_BLOCK_LEN,
+    );
+    let flags = i === 0 ? BLAKE3_CHUNK_START : 0;
+    if (i === blocks - 1) {
+      flags |= BLAKE3_CHUNK_END | (root ? BLAKE3_ROOT : 0);
+    }
+    cv = blake3Compress(cv, block, counter, block.length, flags);
+  }
+  return cv;
+}
+
+function blake3Parent(
+  left: Uint32Array,
+  right: Uint32Array,
+  root: boolean,
+): Uint32Array {
+  const block = new Uint8Array(BLAKE3_BLOCK_LEN);
+  const view = new DataView(block.buffer);
+  [...left, ...right].forEach((word, i) => view.setUint32(i * 4, word, true));
+  const flags = BLAKE3_PARENT | (root ? BLAKE3_ROOT : 0);
+  return blake3Compress(SHA256_IV, block, 0, BLAKE3_BLOCK_LEN, flags);
+}
+
+export function blake3(data: Uint8Array): Uint8Array {
+  const chunks = Math.max(1, Math.ceil(data.length / BLAKE3_CHUNK_LEN));
+  const chunkAt = (i: number): Uint8Array =>
+    data.subarray(i * BLAKE3_CHUNK_LEN, (i + 1) * BLAKE3_CHUNK_LEN);
+
+  // every chunk but the last is merged into the stack of completed subtrees
+  const stack: Uint32Array[] = [];
+  for (let i = 0; i < chunks - 1; i++) {
+    let cv = blake3Chunk(chunkAt(i), i, false);
+    for (let total = i + 1; (total & 1) === 0; total >>= 1) {
+      cv = blake3Parent(stack.pop()!, cv, false);
+    }
+    stack.push(cv);
+  }
+
+  let root: Uint32Array;
+  if (stack.length === 0) {
+    root = blake3Chunk(chunkAt(chunks - 1), chunks - 1, true);
+  } else {
+    let cv = blake3Chunk(chunkAt(chunks - 1), chunks - 1, false);
+    while (stack.length > 1) {
+      cv = blake3Parent(stack.pop()!, cv, false);
+    }
+    root = blake3Parent(stack.pop()!, cv, true);
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  root.forEach((word, i) => outView.setUint32(i * 4, word, true));
+  return out;
+}
@@ -0,0 +1,391 @@
+import { sha256 } from "./hashes";
+import { encodeVarintProto } from "./ops";
+import {
+  CommitmentProof,
+  ExistenceProof,
+  HashOp,
+  InnerOp,
+  LeafOp,
+  LengthOp,
+} from "./proto/cosmos/ics23/v1/proofs";
+import { compareBytes } from "./specs";
+
+// IavlNode is an immutable node of an IAVL+ tree. Leaves hold the data, inner
+// nodes hold the smallest key of their right subtree.
+interface IavlNode {
+  readonly key: Uint8Array;
+  readonly value?: Uint8Array;
+  readonly version: number;
+  readonly height: number;
+  readonly size: number;
+  readonly left?: IavlNode;
+  readonly right?: IavlNode;
+  hash?: Uint8Array;
+}
+
+// IavlTree is a versioned in-memory IAVL+ tree, hashed like cosmos/iavl, that
+// produces proofs matching iavlSpec. Changes go to a working tree which
+// saveVersion commits. Nodes are never mutated, so every saved version stays
+// available for proofs.
+export class IavlTree {
+  private root: IavlNode | undefined;
+  private readonly roots = new Map<number, IavlNode | undefined>();
+  private latestVersion = 0;
+
+  // version is the last saved version, 0 if none was saved yet
+  get version(): number {
+    return this.latestVersion;
+  }
+
+  get size(): number {
+    return this.root?.size ?? 0;
+  }
+
+  get(key: Uint8Array, version?: number): Uint8Array | undefined {
+    return findLeaf(this.rootAt(version), key)?.value;
+  }
+
+  has(key: Uint8Array, version?: number): boolean {
+    return this.get(key, version) !== undefined;
+  }
+
+  // set inserts or updates key. It returns true if key already existed.
+  set(key: Uint8Array, value: Uint8Array): boolean {
+    if (key.length === 0) {
+      throw new Error("Key must not be empty");
+    }
+    if (value.length === 0) {
+      throw new Error("Value must not be empty");
+    }
+    const leaf = newLeaf(key, value, this.workingVersion());
+    if (!this.root) {
+      this.root = leaf;
+      return false;
+    }
+    const [root, updated] = this.insert(this.root, leaf);
+    this.root = root;
+    return updated;
+  }
+
+  // remove deletes key, returning its value if it was present
+  remove(key: Uint8Array): Uint8Array | undefined {
+    if (!this.root) {
+      return undefined;
+    }
+    const removed = this.delete(this.root, key);
+    if (!removed) {
+      return undefined;
+    }
+    this.root = removed.node;
+    return removed.value;
+  }
+
+  // saveVersion commits the working tree and returns the new version
+  saveVersion(): number {
+    this.latestVersion = this.workingVersion();
+    this.roots.set(this.latestVersion, this.root);
+    return this.latestVersion;
+  }
+
+  availableVersions(): readonly number[] {
+    return [...this.roots.keys()];
+  }
+
+  // rootHash returns the hash of the given version, or of the working tree.
+  // An empty tree hashes to sha256 of nothing, like cosmos/iavl.
+  rootHash(version?: number): Uint8Array {
+    const root = this.rootAt(version);
+    return root ? nodeHash(root) : sha256(new Uint8Array());
+  }
+
+  // getMembershipProof proves key is in the tree. It throws if it is not.
+  getMembershipProof(key: Uint8Array, version?: number): CommitmentProof {
+    const exist = existenceProof(this.rootAt(version), key);
+    if (!exist) {
+      throw new Error("Cannot create existence proof if key is not in tree");
+    }
+    return { exist };
+  }
+
+  // getNonMembershipProof proves key is not in the tree by proving its
+  // neighbors. It throws if key is in the tree.
+  getNonMembershipProof(key: Uint8Array, version?: number): CommitmentProof {
+    const root = this.rootAt(version);
+    if (!root) {
+      throw new Error("Cannot create non-existence proof for an empty tree");
+    }
+    if (findLeaf(root, key)) {
+      throw new Error("Cannot create non-existence proof if key is in tree");
+    }
+    const left = lowerNeighbor(root, key);
+    const right = upperNeighbor(root, key);
+    return {
+      nonexist: {
+        key,
+        left: left && existenceProof(root, left.key),
+        right: right && existenceProof(root, right.key),
+      },
+    };
+  }
+
+  private rootAt(version?: number): IavlNode | undefined {
+    if (version === undefined) {
+      return this.root;
+    }
+    if (!this.roots.has(version)) {
+      throw new Error(`Version ${version} does not exist`);
+    }
+    return this.roots.get(version);
+  }
+
+  private workingVersion(): number {
+    return this.latestVersion + 1;
+  }
+
+  private insert(node: IavlNode, leaf: IavlNode): [IavlNode, boolean] {
+    const version = this.workingVersion();
+    if (isLeaf(node)) {
+      const cmp = compareBytes(leaf.key, node.key);
+      if (cmp === 0) {
+        return [leaf, true];
+      }
+      return cmp < 0
+        ? [newInner(node.key, leaf, node, version), false]
+        : [newInner(leaf.key, node, leaf, version), false];
+    }
+
+    if (compareBytes(leaf.key, node.key) < 0) {
+      const [left, updated] = this.insert(node.left!, leaf);
+      const inner = newInner(node.key, left, node.right!, version);
+      return [updated ? inner : this.balance(inner), updated];
+    }
+    const [right, updated] = this.insert(node.right!, leaf);
+    const inner = newInner(node.key, node.left!, right, version);
+    return [updated ? inner : this.balance(inner), updated];
+  }
+
+  // delete returns undefined if key is not found. Otherwise node is the new
+  // subtree, empty if it was the removed leaf, and newKey the new smallest
+  // key of the subtree if it changed.
+  private delete(
+    node: IavlNode,
+    key: Uint8Array,
+  ): { node?: IavlNode; newKey?: Uint8Array; value: Uint8Array } | undefined {
+    const version = this.workingVersion();
+    if (isLeaf(node)) {
+      return compareBytes(key, node.key) === 0
+        ? { value: node.value! }
+        : undefined;
+    }
+
+    if (compareBytes(key, node.key) < 0) {
+      const removed = this.delete(node.left!, key);
+      if (!removed) {
+        return undefined;
+      }
+      if (!removed.node) {
+        return { node: node.right, newKey: node.key, value: removed.value };
+      }
+      const inner = newInner(node.key, removed.node, node.right!, version);
+      return {
+        node: this.balance(inner),
+        newKey: removed.newKey,
+        value: removed.value,
+      };
+    }
+
+    const removed = this.delete(node.right!, key);
+    if (!removed) {
+      return undefined;
+    }
+    if (!removed.node) {
+      return { node: node.left, value: removed.value };
+    }
+    const inner = newInner(
+      removed.newKey ?? node.key,
+      node.left!,
+      removed.node,
+      version,
+    );
+    return { node: this.balance(inner), value: removed.value };
+  }
+
+  private balance(node: IavlNode): IavlNode {
+    const balance = node.left!.height - node.right!.height;
+    if (balance > 1) {
+      const left = node.left!;
+      if (left.left!.height - left.right!.height >= 0) {
+        return this.rotateRight(node);
+      }
+      return this.rotateRight(
+        newInner(node.key, this.rotateLeft(left), node.right!, node.version),
+      );
+    }
+    if (balance < -1) {
+      const right = node.right!;
+      if (right.left!.height - right.right!.height <= 0) {
+        return this.rotateLeft(node);
+      }
+      return this.rotateLeft(
+        newInner(node.key, node.left!, this.rotateRight(right), node.version),
+      );
+    }
+    return node;
+  }
+
+  private rotateRight(node: IavlNode): IavlNode {
+    const version = this.workingVersion();
+    const pivot = node.left!;
+    const lowered = newInner(node.key, pivot.right!, node.right!, version);
+    return newInner(pivot.key, pivot.left!, lowered, version);
+  }
+
+  private rotateLeft(node: IavlNode): IavlNode {
+    const version = this.workingVersion();
+    const pivot = node.right!;
+    const lowered = newInner(node.key, node.left!, pivot.left!, version);
+    return newInner(pivot.key, lowered, pivot.right!, version);
+  }
+}
+
+function newLeaf(
+  key: Uint8Array,
+  value: Uint8Array,
+  version: number,
+): IavlNode {
+  return { key, value, version, height: 0, size: 1 };
+}
+
+function newInner(
+  key: Uint8Array,
+  left: IavlNode,
+  right: IavlNode,
+  version: number,
+): IavlNode {
+  return {
+    key,
+    version,
+    height: Math.max(left.height, right.height) + 1,
+    size: left.size + right.size,
+    left,
+    right,
+  };
+}
+
+function isLeaf(node: IavlNode): boolean {
+  return node.height === 0;
+}
+
+// encodeVarint is the zigzag varint encoding used by cosmos/iavl for
+// heights, sizes and versions, which are never negative
+function encodeVarint(n: number): Uint8Array {
+  return encodeVarintProto(n * 2);
+}
+
+function encodeBytes(data: Uint8Array): Uint8Array {
+  return new Uint8Array([...encodeVarintProto(data.length), ...data]);
+}
+
+function nodePrefix(node: IavlNode): Uint8Array {
+  return new Uint8Array([
+    ...encodeVarint(node.height),
+    ...encodeVarint(node.size),
+    ...encodeVarint(node.version),
+  ]);
+}
+
+function nodeHash(node: IavlNode): Uint8Array {
+  if (!node.hash) {
+    const children = isLeaf(node)
+      ? [...encodeBytes(node.key), ...encodeBytes(sha256(node.value!))]
+      : [
+          ...encodeBytes(nodeHash(node.left!)),
+          ...encodeBytes(nodeHash(node.right!)),
+        ];
+    node.hash = sha256(new Uint8Array([...nodePrefix(node), ...children]));
+  }
+  return node.hash;
+}
+
+function findLeaf(
+  node: IavlNode | undefined,
+  key: Uint8Array,
+): IavlNode | undefined {
+  while (node && !isLeaf(node)) {
+    node = compareBytes(key, node.key) < 0 ? node.left : node.right;
+  }
+  return node && compareBytes(key, node.key) === 0 ? node : undefined;
+}
+
+// lowerNeighbor finds the leaf with the largest key below key
+function lowerNeighbor(node: IavlNode, key: Uint8Array): IavlNode | undefined {
+  if (isLeaf(node)) {
+    return compareBytes(node.key, key) < 0 ? node : undefined;
+  }
+  // every key on the right is at least node.key
+  if (compareBytes(key, node.key) <= 0) {
+    return lowerNeighbor(node.left!, key);
+  }
+  return lowerNeighbor(node.right!, key);
+}
+
+// upperNeighbor finds the leaf with the smallest key above key
+function upperNeighbor(node: IavlNode, key: Uint8Array): IavlNode | undefined {
+  if (isLeaf(node)) {
+    return compareBytes(node.key, key) > 0 ? node : undefined;
+  }
+  if (compareBytes(key, node.key) < 0) {
+    return upperNeighbor(node.left!, key) ?? leftmostLeaf(node.right!);
+  }
+  return upperNeighbor(node.right!, key);
+}
+
+function leftmostLeaf(node: IavlNode): IavlNode {
+  while (!isLeaf(node)) {
+    node = node.left!;
+  }
+  return node;
+}
+
+function existenceProof(
+  root: IavlNode | undefined,
+  key: Uint8Array,
+): ExistenceProof | undefined {
+  const path: InnerOp[] = [];
+  let node = root;
+  while (node && !isLeaf(node)) {
+    const prefix = nodePrefix(node);
+    if (compareBytes(key, node.key) < 0) {
+      // the child is length prefixed, so the prefix ends with its length
+      path.unshift({
+        hash: HashOp.SHA256,
+        prefix: new Uint8Array([...prefix, 32]),
+        suffix: encodeBytes(nodeHash(node.right!)),
+      });
+      node = node.left;
+    } else {
+      path.unshift({
+        hash: HashOp.SHA256,
+        prefix: new Uint8Array([
+          ...prefix,
+          ...encodeBytes(nodeHash(node.left!)),
+          32,
+        ]),
+        suffix: new Uint8Array(),
+      });
+      node = node.right;
+    }
+  }
+  if (!node || compareBytes(key, node.key) !== 0) {
+    return undefined;
+  }
+
+  const leaf: LeafOp = {
+    hash: HashOp.SHA256,
+    prehashKey: HashOp.NO_HASH,
+    prehashValue: HashOp.SHA256,
+    length: LengthOp.VAR_PROTO,
+    prefix: nodePrefix(node),
+  };
+  return { key: node.key, value: node.value!, leaf, path };
+}
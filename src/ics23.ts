@@ -1,6 +1,26 @@
+import { BatchIndex } from "./batchindex";
 import { decompress } from "./compress";
-import { CommitmentRoot, verifyExistence, verifyNonExistence } from "./proofs";
-import { keyForComparison } from "./proofs";
+import {
+  failed,
+  VerificationError,
+  VerificationErrorCode,
+  VerificationResult,
+  verified,
+} from "./errors";
+import {
+  HashSteps,
+  memoizeHashSteps,
+  runHashSteps,
+  runHashStepsSync,
+} from "./hasher";
+import {
+  CommitmentRoot,
+  keyForComparisonSteps,
+  traceContext,
+  verifyExistenceSteps,
+  verifyNonExistenceSteps,
+  VerifyOptions,
+} from "./proofs";
 import {
   BatchEntry,
   CommitmentProof,
@@ -9,6 +29,8 @@ import {
   ProofSpec,
 } from "./proto/cosmos/ics23/v1/proofs";
 import { bytesBefore, bytesEqual } from "./specs";
+import { TraceContext } from "./trace";
+import { ensureValidSpec } from "./validate";
 /*
 This implements the client side functions as specified in
 https://github.com/cosmos/ics/tree/master/spec/ics-023-vector-commitments
@@ -41,17 +63,112 @@ export async function verifyMembership(
   root: CommitmentRoot,
   key: Uint8Array,
   value: Uint8Array,
+  options: VerifyOptions = {},
 ): Promise<boolean> {
-  const norm = decompress(proof);
-  const exist = getExistForKey(norm, key);
-  if (!exist) {
-    return false;
+  return runHashSteps(
+    verifyMembershipSteps(proof, spec, root, key, value, options),
+    options.hasher,
+  );
+}
+
+export function verifyMembershipSync(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  value: Uint8Array,
+  options: VerifyOptions = {},
+): boolean {
+  return runHashStepsSync(
+    verifyMembershipSteps(proof, spec, root, key, value, options),
+    options.hasher,
+  );
+}
+
+function* verifyMembershipSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  value: Uint8Array,
+  options: VerifyOptions,
+): HashSteps<boolean> {
+  const result = yield* verifyMembershipDetailedSteps(
+    proof,
+    spec,
+    root,
+    key,
+    value,
+    options,
+  );
+  return result.ok;
+}
+
+/**
+ * verifyMembershipDetailed is like verifyMembership, but reports why the proof was rejected
+ */
+export async function verifyMembershipDetailed(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  value: Uint8Array,
+  options: VerifyOptions = {},
+): Promise<VerificationResult> {
+  return runHashSteps(
+    verifyMembershipDetailedSteps(proof, spec, root, key, value, options),
+    options.hasher,
+  );
+}
+
+export function verifyMembershipDetailedSync(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  value: Uint8Array,
+  options: VerifyOptions = {},
+): VerificationResult {
+  return runHashStepsSync(
+    verifyMembershipDetailedSteps(proof, spec, root, key, value, options),
+    options.hasher,
+  );
+}
+
+export function* verifyMembershipDetailedSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  value: Uint8Array,
+  options: VerifyOptions,
+): HashSteps<VerificationResult> {
+  const invalid = specFailure(spec, options);
+  if (invalid) {
+    return invalid;
   }
   try {
-    await verifyExistence(exist, spec, root, key, value);
-    return true;
-  } catch {
-    return false;
+    const norm = decompress(proof, options.limits);
+    const exist = getExistForKey(norm, key);
+    if (!exist) {
+      return failed(
+        new VerificationError(
+          VerificationErrorCode.PROOF_NOT_FOUND,
+          "No existence proof for key",
+        ),
+      );
+    }
+    yield* verifyExistenceSteps(
+      exist,
+      spec,
+      root,
+      key,
+      value,
+      traceContext(options),
+    );
+    return verified;
+  } catch (err) {
+    return failed(err);
   }
 }
 
@@ -63,17 +180,105 @@ export async function verifyNonMembership(
   spec: ProofSpec,
   root: CommitmentRoot,
   key: Uint8Array,
+  options: VerifyOptions = {},
 ): Promise<boolean> {
-  const norm = decompress(proof);
-  const nonexist = await getNonExistForKey(spec, norm, key);
-  if (!nonexist) {
-    return false;
+  return runHashSteps(
+    verifyNonMembershipSteps(proof, spec, root, key, options),
+    options.hasher,
+  );
+}
+
+export function verifyNonMembershipSync(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  options: VerifyOptions = {},
+): boolean {
+  return runHashStepsSync(
+    verifyNonMembershipSteps(proof, spec, root, key, options),
+    options.hasher,
+  );
+}
+
+function* verifyNonMembershipSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  options: VerifyOptions,
+): HashSteps<boolean> {
+  const result = yield* verifyNonMembershipDetailedSteps(
+    proof,
+    spec,
+    root,
+    key,
+    options,
+  );
+  return result.ok;
+}
+
+/**
+ * verifyNonMembershipDetailed is like verifyNonMembership, but reports why the proof was rejected
+ */
+export async function verifyNonMembershipDetailed(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  options: VerifyOptions = {},
+): Promise<VerificationResult> {
+  return runHashSteps(
+    verifyNonMembershipDetailedSteps(proof, spec, root, key, options),
+    options.hasher,
+  );
+}
+
+export function verifyNonMembershipDetailedSync(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  options: VerifyOptions = {},
+): VerificationResult {
+  return runHashStepsSync(
+    verifyNonMembershipDetailedSteps(proof, spec, root, key, options),
+    options.hasher,
+  );
+}
+
+export function* verifyNonMembershipDetailedSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  options: VerifyOptions,
+): HashSteps<VerificationResult> {
+  const invalid = specFailure(spec, options);
+  if (invalid) {
+    return invalid;
   }
   try {
-    await verifyNonExistence(nonexist, spec, root, key);
-    return true;
-  } catch {
-    return false;
+    const norm = decompress(proof, options.limits);
+    const nonexist = yield* getNonExistForKey(spec, norm, key);
+    if (!nonexist) {
+      return failed(
+        new VerificationError(
+          VerificationErrorCode.PROOF_NOT_FOUND,
+          "No non-existence proof for key",
+        ),
+      );
+    }
+    yield* verifyNonExistenceSteps(
+      nonexist,
+      spec,
+      root,
+      key,
+      traceContext(options),
+    );
+    return verified;
+  } catch (err) {
+    return failed(err);
   }
 }
 
@@ -85,14 +290,106 @@ export async function batchVerifyMembership(
   spec: ProofSpec,
   root: CommitmentRoot,
   items: Map<Uint8Array, Uint8Array>,
+  options: VerifyOptions = {},
 ): Promise<boolean> {
-  const norm = decompress(proof);
-  for (const [key, value] of items.entries()) {
-    if (!(await verifyMembership(norm, spec, root, key, value))) {
-      return false;
+  return runHashSteps(
+    batchVerifyMembershipSteps(proof, spec, root, items, options),
+    options.hasher,
+  );
+}
+
+export function batchVerifyMembershipSync(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  items: Map<Uint8Array, Uint8Array>,
+  options: VerifyOptions = {},
+): boolean {
+  return runHashStepsSync(
+    batchVerifyMembershipSteps(proof, spec, root, items, options),
+    options.hasher,
+  );
+}
+
+function* batchVerifyMembershipSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  items: Map<Uint8Array, Uint8Array>,
+  options: VerifyOptions,
+): HashSteps<boolean> {
+  const result = yield* batchVerifyMembershipDetailedSteps(
+    proof,
+    spec,
+    root,
+    items,
+    options,
+  );
+  return result.ok;
+}
+
+/**
+ * batchVerifyMembershipDetailed is like batchVerifyMembership, but reports why the proof was rejected
+ */
+export async function batchVerifyMembershipDetailed(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  items: Map<Uint8Array, Uint8Array>,
+  options: VerifyOptions = {},
+): Promise<VerificationResult> {
+  return runHashSteps(
+    batchVerifyMembershipDetailedSteps(proof, spec, root, items, options),
+    options.hasher,
+  );
+}
+
+export function batchVerifyMembershipDetailedSync(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  items: Map<Uint8Array, Uint8Array>,
+  options: VerifyOptions = {},
+): VerificationResult {
+  return runHashStepsSync(
+    batchVerifyMembershipDetailedSteps(proof, spec, root, items, options),
+    options.hasher,
+  );
+}
+
+// batchVerifyMembershipDetailedSteps reports the first item that fails
+function* batchVerifyMembershipDetailedSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  items: Map<Uint8Array, Uint8Array>,
+  options: VerifyOptions,
+): HashSteps<VerificationResult> {
+  function* check(index: BatchIndex): HashSteps<VerificationResult> {
+    for (const [key, value] of items.entries()) {
+      const exist = index.exist(key);
+      if (!exist) {
+        return failed(
+          new VerificationError(
+            VerificationErrorCode.PROOF_NOT_FOUND,
+            "No existence proof for key",
+          ),
+        );
+      }
+      yield* verifyExistenceSteps(
+        exist,
+        spec,
+        root,
+        key,
+        value,
+        traceContext(options),
+      );
     }
+    return verified;
   }
-  return true;
+  return yield* memoizeHashSteps(
+    verifyIndexedSteps(proof, spec, options, check),
+  );
 }
 
 /**
@@ -103,14 +400,293 @@ export async function batchVerifyNonMembership(
   spec: ProofSpec,
   root: CommitmentRoot,
   keys: readonly Uint8Array[],
+  options: VerifyOptions = {},
 ): Promise<boolean> {
-  const norm = decompress(proof);
-  for (const key of keys) {
-    if (!(await verifyNonMembership(norm, spec, root, key))) {
-      return false;
+  return runHashSteps(
+    batchVerifyNonMembershipSteps(proof, spec, root, keys, options),
+    options.hasher,
+  );
+}
+
+export function batchVerifyNonMembershipSync(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  keys: readonly Uint8Array[],
+  options: VerifyOptions = {},
+): boolean {
+  return runHashStepsSync(
+    batchVerifyNonMembershipSteps(proof, spec, root, keys, options),
+    options.hasher,
+  );
+}
+
+function* batchVerifyNonMembershipSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  keys: readonly Uint8Array[],
+  options: VerifyOptions,
+): HashSteps<boolean> {
+  const result = yield* batchVerifyNonMembershipDetailedSteps(
+    proof,
+    spec,
+    root,
+    keys,
+    options,
+  );
+  return result.ok;
+}
+
+/**
+ * batchVerifyNonMembershipDetailed is like batchVerifyNonMembership, but reports why the proof was rejected
+ */
+export async function batchVerifyNonMembershipDetailed(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  keys: readonly Uint8Array[],
+  options: VerifyOptions = {},
+): Promise<VerificationResult> {
+  return runHashSteps(
+    batchVerifyNonMembershipDetailedSteps(proof, spec, root, keys, options),
+    options.hasher,
+  );
+}
+
+export function batchVerifyNonMembershipDetailedSync(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  keys: readonly Uint8Array[],
+  options: VerifyOptions = {},
+): VerificationResult {
+  return runHashStepsSync(
+    batchVerifyNonMembershipDetailedSteps(proof, spec, root, keys, options),
+    options.hasher,
+  );
+}
+
+// batchVerifyNonMembershipDetailedSteps reports the first key that fails
+function* batchVerifyNonMembershipDetailedSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  keys: readonly Uint8Array[],
+  options: VerifyOptions,
+): HashSteps<VerificationResult> {
+  function* check(index: BatchIndex): HashSteps<VerificationResult> {
+    for (const key of keys) {
+      const nonexist = yield* index.nonexistSteps(key);
+      if (!nonexist) {
+        return failed(
+          new VerificationError(
+            VerificationErrorCode.PROOF_NOT_FOUND,
+            "No non-existence proof for key",
+          ),
+        );
+      }
+      yield* verifyNonExistenceSteps(
+        nonexist,
+        spec,
+        root,
+        key,
+        traceContext(options),
+      );
+    }
+    return verified;
+  }
+  return yield* memoizeHashSteps(
+    verifyIndexedSteps(proof, spec, options, check),
+  );
+}
+
+// verifyIndexedSteps checks spec, then indexes proof once for verifying many
+// keys with check. Errors thrown by check are reported as failures.
+function* verifyIndexedSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  options: VerifyOptions,
+  check: (index: BatchIndex) => HashSteps<VerificationResult>,
+): HashSteps<VerificationResult> {
+  const invalid = specFailure(spec, options);
+  if (invalid) {
+    return invalid;
+  }
+  try {
+    const norm = decompress(proof, options.limits);
+    return yield* check(yield* BatchIndex.buildSteps(norm, spec));
+  } catch (err) {
+    return failed(err);
+  }
+}
+
+// BatchQuery asks verifyBatch about a key: "exists" requires the proof to
+// show key with value, "absent" requires it to show that key is missing, and
+// "lookup" asks for whichever of the two the proof shows
+export type BatchQuery =
+  | {
+      readonly type: "exists";
+      readonly key: Uint8Array;
+      readonly value: Uint8Array;
+    }
+  | { readonly type: "absent"; readonly key: Uint8Array }
+  | { readonly type: "lookup"; readonly key: Uint8Array };
+
+// KeyStatus is what a proof shows about a key. "uncovered" means the proof
+// has no valid existence or non-existence proof for it.
+export type KeyStatus = "present" | "absent" | "uncovered";
+
+// BatchKeyResult tells if a query was answered as asked, and what the proof
+// shows about its key. value is the proven value if status is "present".
+export type BatchKeyResult = VerificationResult & {
+  readonly status: KeyStatus;
+  readonly value?: Uint8Array;
+};
+
+export interface BatchVerificationResult {
+  // true if every query was answered as asked
+  readonly ok: boolean;
+  // the result of every query, in the order of the queries
+  readonly results: readonly BatchKeyResult[];
+}
+
+/**
+ * verifyBatch checks every query against proof and reports the outcome of
+ * each, instead of stopping at the first failure
+ */
+export async function verifyBatch(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  queries: readonly BatchQuery[],
+  options: VerifyOptions = {},
+): Promise<BatchVerificationResult> {
+  return runHashSteps(
+    memoizeHashSteps(verifyBatchSteps(proof, spec, root, queries, options)),
+    options.hasher,
+  );
+}
+
+export function verifyBatchSync(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  queries: readonly BatchQuery[],
+  options: VerifyOptions = {},
+): BatchVerificationResult {
+  return runHashStepsSync(
+    memoizeHashSteps(verifyBatchSteps(proof, spec, root, queries, options)),
+    options.hasher,
+  );
+}
+
+function* verifyBatchSteps(
+  proof: CommitmentProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  queries: readonly BatchQuery[],
+  options: VerifyOptions,
+): HashSteps<BatchVerificationResult> {
+  const results: BatchKeyResult[] = [];
+  let index: BatchIndex | undefined;
+  let invalid = specFailure(spec, options);
+  if (!invalid) {
+    try {
+      const norm = decompress(proof, options.limits);
+      index = yield* BatchIndex.buildSteps(norm, spec);
+    } catch (err) {
+      invalid = failed(err);
+    }
+  }
+
+  for (const query of queries) {
+    const shown = index
+      ? yield* provenStatusSteps(
+          index,
+          spec,
+          root,
+          query.key,
+          traceContext(options),
+        )
+      : { ...invalid!, status: "uncovered" as const };
+    results.push(answerQuery(query, shown));
+  }
+  return { ok: results.every((result) => result.ok), results };
+}
+
+// provenStatusSteps finds out what proof shows about key. The result is ok
+// unless the status is "uncovered".
+function* provenStatusSteps(
+  index: BatchIndex,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  trace?: TraceContext,
+): HashSteps<BatchKeyResult> {
+  try {
+    const exist = index.exist(key);
+    if (exist) {
+      yield* verifyExistenceSteps(exist, spec, root, key, exist.value, trace);
+      return { ...verified, status: "present", value: exist.value };
+    }
+    const nonexist = yield* index.nonexistSteps(key);
+    if (nonexist) {
+      yield* verifyNonExistenceSteps(nonexist, spec, root, key, trace);
+      return { ...verified, status: "absent" };
     }
+    throw new VerificationError(
+      VerificationErrorCode.PROOF_NOT_FOUND,
+      "No existence or non-existence proof for key",
+    );
+  } catch (err) {
+    return { ...failed(err), status: "uncovered" };
+  }
+}
+
+// answerQuery turns what the proof shows into the answer to query
+function answerQuery(query: BatchQuery, shown: BatchKeyResult): BatchKeyResult {
+  if (!shown.ok || query.type === "lookup") {
+    return shown;
+  }
+  const { status, value } = shown;
+  let err: VerificationError | undefined;
+  if (query.type === "absent") {
+    if (status !== "absent") {
+      err = new VerificationError(
+        VerificationErrorCode.PROOF_NOT_FOUND,
+        "No non-existence proof for key",
+      );
+    }
+  } else if (status === "absent") {
+    err = new VerificationError(
+      VerificationErrorCode.PROOF_NOT_FOUND,
+      "No existence proof for key",
+    );
+  } else if (!bytesEqual(value!, query.value)) {
+    err = new VerificationError(
+      VerificationErrorCode.VALUE_MISMATCH,
+      "Proven value differs from the expected value",
+      { expected: query.value, actual: value },
+    );
+  }
+  return err ? { ...failed(err), status, value } : shown;
+}
+
+// specFailure checks spec up front if options ask for it
+function specFailure(
+  spec: ProofSpec,
+  options: VerifyOptions,
+): VerificationResult | undefined {
+  if (!options.validateSpec) {
+    return undefined;
+  }
+  try {
+    ensureValidSpec(spec);
+    return undefined;
+  } catch (err) {
+    return failed(err);
   }
-  return true;
 }
 
 function getExistForKey(
@@ -129,34 +705,32 @@ function getExistForKey(
   return undefined;
 }
 
-async function getNonExistForKey(
+function* getNonExistForKey(
   spec: ProofSpec,
   proof: CommitmentProof,
   key: Uint8Array,
-): Promise<NonExistenceProof | undefined | null> {
-  const match = async (
-    p: NonExistenceProof | null | undefined,
-  ): Promise<boolean> => {
+): HashSteps<NonExistenceProof | undefined | null> {
+  function* match(p: NonExistenceProof | null | undefined): HashSteps<boolean> {
     return (
       !!p &&
       (!p.left ||
         bytesBefore(
-          await keyForComparison(spec, p.left.key!),
-          await keyForComparison(spec, key),
+          yield* keyForComparisonSteps(spec, p.left.key!),
+          yield* keyForComparisonSteps(spec, key),
         )) &&
       (!p.right ||
         bytesBefore(
-          await keyForComparison(spec, key),
-          await keyForComparison(spec, p.right.key!),
+          yield* keyForComparisonSteps(spec, key),
+          yield* keyForComparisonSteps(spec, p.right.key!),
         ))
     );
-  };
-  if (await match(proof.nonexist)) {
+  }
+  if (yield* match(proof.nonexist)) {
     return proof.nonexist!;
   } else if (proof.batch) {
     for (const entry of proof.batch.entries || []) {
       const candidate = entry.nonexist || null;
-      if (await match(candidate)) {
+      if (yield* match(candidate)) {
         return candidate;
       }
     }
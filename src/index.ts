@@ -1,10 +1,165 @@
-export { verifyMembership, verifyNonMembership } from "./ics23";
+export { BatchOptions, createBatch, mergeBatches, pruneBatch } from "./batch";
+export {
+  ChainedVerificationResult,
+  verifyChainedMembership,
+  verifyChainedMembershipDetailed,
+  verifyChainedMembershipDetailedSync,
+  verifyChainedMembershipSync,
+  verifyChainedNonMembership,
+  verifyChainedNonMembershipDetailed,
+  verifyChainedNonMembershipDetailedSync,
+  verifyChainedNonMembershipSync,
+} from "./chained";
+export {
+  BlockHeader,
+  BlockId,
+  BlockIdFlag,
+  Commit,
+  CommitSig,
+  headerFromJson,
+  headerHash,
+  LightBlock,
+  lightBlockFromJson,
+  PartSetHeader,
+  SignedHeader,
+  Timestamp,
+  Validator,
+  validatorSetHash,
+  verifyHeaderAppHash,
+} from "./cometbft";
+export {
+  compress,
+  CompressionStats,
+  compressWithStats,
+  decompress,
+} from "./compress";
+export {
+  detectSpec,
+  SpecCandidateResult,
+  SpecCheck,
+  SpecCheckFailure,
+  SpecDetection,
+} from "./detect";
+export {
+  decodeWebcatEnrollment,
+  WebcatEnrollment,
+  webcatEnrollments,
+} from "./enrollment";
+export {
+  VerificationError,
+  VerificationErrorCode,
+  VerificationErrorDetail,
+  VerificationResult,
+} from "./errors";
+export {
+  defaultHasher,
+  Hasher,
+  HashFunction,
+  pureHasher,
+  registerHasher,
+  webCryptoHasher,
+} from "./hasher";
+export { IavlTree } from "./iavl";
+export {
+  BatchKeyResult,
+  BatchQuery,
+  BatchVerificationResult,
+  KeyStatus,
+  verifyBatch,
+  verifyBatchSync,
+  verifyMembership,
+  verifyMembershipDetailed,
+  verifyMembershipDetailedSync,
+  verifyMembershipSync,
+  verifyNonMembership,
+  verifyNonMembershipDetailed,
+  verifyNonMembershipDetailedSync,
+  verifyNonMembershipSync,
+} from "./ics23";
+export { JellyfishMerkleTree, jmtOptions } from "./jmt";
+export {
+  defaultTrustLevel,
+  LightBlocksResult,
+  LightClientOptions,
+  SignatureVerifier,
+  TrustLevel,
+  verifyLightBlock,
+  verifyLightBlocks,
+  webCryptoSignatureVerifier,
+} from "./lightclient";
+export {
+  decodeProof,
+  defaultLimits,
+  ensureProofLimits,
+  ProofLimits,
+} from "./limits";
 export {
   calculateExistenceRoot,
+  calculateExistenceRootSync,
   CommitmentRoot,
   iavlSpec,
+  smtSpec,
   tendermintSpec,
   verifyExistence,
+  verifyExistenceSync,
   verifyNonExistence,
+  verifyNonExistenceSync,
+  VerifyOptions,
 } from "./proofs";
-export { verifyWebcatProof, webcatSpec } from "./webcat";
+export {
+  getSpec,
+  hasSpec,
+  registerSpec,
+  resolveSpec,
+  specFromBinary,
+  specFromJson,
+  specName,
+  specNames,
+  specToBinary,
+  specToJson,
+  unregisterSpec,
+} from "./registry";
+export { hashFromByteSlices, SimpleMerkleTree } from "./simple";
+export { smtOptions, SparseMerkleTree, SparseMerkleTreeOptions } from "./smt";
+export {
+  keyValueSnapshotStorage,
+  KeyValueStorage,
+  MemorySnapshotStorage,
+  WebcatAnchor,
+  WebcatSnapshot,
+  WebcatSnapshotStorage,
+  WebcatSnapshotStore,
+} from "./snapshot";
+export {
+  createTrace,
+  InnerTraceStep,
+  LeafTraceStep,
+  TraceSide,
+  TraceStep,
+  traceToJson,
+  VerificationTrace,
+  VerificationTraceJson,
+} from "./trace";
+export {
+  ProofSpecFinding,
+  ProofSpecFindingCode,
+  validateProofSpec,
+} from "./validate";
+export {
+  AnchoredWebcatResult,
+  createWebcatLeavesFile,
+  verifyAnchoredWebcatProof,
+  verifyPinnedWebcatProof,
+  verifyWebcatDomain,
+  verifyWebcatDomainSync,
+  verifyWebcatProof,
+  verifyWebcatProofSync,
+  verifyWebcatRootProof,
+  verifyWebcatRootProofSync,
+  WebcatDomainResult,
+  WebcatLeaf,
+  WebcatLeavesFile,
+  WebcatLeavesFileOptions,
+  WebcatRootProof,
+  webcatSpec,
+} from "./webcat";
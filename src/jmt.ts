@@ -0,0 +1,19 @@
+import { SparseMerkleTree, SparseMerkleTreeOptions } from "./smt";
+
+const utf8Encoder = new TextEncoder();
+
+// jmtOptions hash like the jmt crate, with domain separated leaves and inner
+// nodes and a placeholder for empty subtrees
+export const jmtOptions: SparseMerkleTreeOptions = {
+  leafPrefix: utf8Encoder.encode("JMT::LeafNode"),
+  innerPrefix: utf8Encoder.encode("JMT::IntrnalNode"),
+  placeholder: utf8Encoder.encode("SPARSE_MERKLE_PLACEHOLDER_HASH__"),
+};
+
+// JellyfishMerkleTree produces the proofs of a Jellyfish Merkle Tree, which
+// hashes like a binary sparse Merkle tree. Its proofs match webcatSpec.
+export class JellyfishMerkleTree extends SparseMerkleTree {
+  constructor() {
+    super(jmtOptions);
+  }
+}
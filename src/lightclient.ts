@@ -0,0 +1,368 @@
+import {
+  BlockIdFlag,
+  compareTimestamps,
+  headerHash,
+  LightBlock,
+  SignedHeader,
+  Timestamp,
+  timestampFromDate,
+  Validator,
+  validatorSetHash,
+  voteSignBytes,
+} from "./cometbft";
+import {
+  failed,
+  VerificationError,
+  VerificationErrorCode,
+  VerificationResult,
+  verified,
+} from "./errors";
+import { bytesEqual } from "./specs";
+
+/*
+A CometBFT light client, following light/verifier.go. A block is trusted if
+it is adjacent to a trusted block and signed by more than 2/3 of the voting
+power the trusted block names as next validators, or, when skipping blocks,
+if next validators of the trusted block holding more than trustLevel of their
+voting power signed it as well. Blocks are only ever trusted within the
+trusting period.
+*/
+
+// SignatureVerifier checks an Ed25519 signature of message
+export type SignatureVerifier = (
+  pubKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array,
+) => Promise<boolean>;
+
+// TrustLevel is the fraction of trusted voting power that must sign a block
+// to skip to it. It must be between 1/3 and 1.
+export interface TrustLevel {
+  readonly numerator: bigint;
+  readonly denominator: bigint;
+}
+
+export const defaultTrustLevel: TrustLevel = { numerator: 1n, denominator: 3n };
+
+export interface LightClientOptions {
+  // how long a block stays trusted, in seconds. It should be well below the
+  // unbonding period of the chain.
+  readonly trustingPeriod: number;
+  readonly trustLevel?: TrustLevel;
+  // how far headers may be dated after now, in seconds, 10 by default
+  readonly maxClockDrift?: number;
+  // the current time, new Date() by default
+  readonly now?: Date;
+  // verifies signatures, Web Crypto by default
+  readonly verifySignature?: SignatureVerifier;
+}
+
+// LightBlocksResult tells which of the blocks failed on failure, as an index
+// into blocks
+export type LightBlocksResult = VerificationResult & {
+  readonly block?: number;
+};
+
+// webCryptoSignatureVerifier verifies Ed25519 signatures with subtle, which
+// all current browsers and Node.js support
+export function webCryptoSignatureVerifier(
+  subtle: SubtleCrypto,
+): SignatureVerifier {
+  return async (pubKey, message, signature) => {
+    const key = await subtle.importKey(
+      "raw",
+      new Uint8Array(pubKey),
+      { name: "Ed25519" },
+      false,
+      ["verify"],
+    );
+    return subtle.verify(
+      { name: "Ed25519" },
+      key,
+      new Uint8Array(signature),
+      new Uint8Array(message),
+    );
+  };
+}
+
+// verifyLightBlock checks that untrusted can be trusted given trusted, either
+// as its successor or by skipping the blocks in between
+export async function verifyLightBlock(
+  trusted: LightBlock,
+  untrusted: LightBlock,
+  options: LightClientOptions,
+): Promise<VerificationResult> {
+  try {
+    const verifySignature = signatureVerifier(options);
+    const trustLevel = options.trustLevel ?? defaultTrustLevel;
+    ensureTrustLevel(trustLevel);
+    await verifyLightBlockOrThrow(
+      trusted,
+      untrusted,
+      options,
+      trustLevel,
+      verifySignature,
+    );
+    return verified;
+  } catch (err) {
+    return failed(err);
+  }
+}
+
+// verifyLightBlocks verifies blocks in order, each against the last one
+// verified, starting from trusted. The last block is trusted if all pass.
+export async function verifyLightBlocks(
+  trusted: LightBlock,
+  blocks: readonly LightBlock[],
+  options: LightClientOptions,
+): Promise<LightBlocksResult> {
+  let verifySignature: SignatureVerifier;
+  const trustLevel = options.trustLevel ?? defaultTrustLevel;
+  try {
+    verifySignature = signatureVerifier(options);
+    ensureTrustLevel(trustLevel);
+  } catch (err) {
+    return failed(err);
+  }
+  let current = trusted;
+  for (let block = 0; block < blocks.length; block++) {
+    try {
+      await verifyLightBlockOrThrow(
+        current,
+        blocks[block],
+        options,
+        trustLevel,
+        verifySignature,
+      );
+    } catch (err) {
+      return { ...failed(err), block };
+    }
+    current = blocks[block];
+  }
+  return verified;
+}
+
+async function verifyLightBlockOrThrow(
+  trusted: LightBlock,
+  untrusted: LightBlock,
+  options: LightClientOptions,
+  trustLevel: TrustLevel,
+  verifySignature: SignatureVerifier,
+): Promise<void> {
+  const trustedHeader = trusted.signedHeader.header;
+  const header = untrusted.signedHeader.header;
+  ensureValidators(trusted, "trusted");
+  ensureValidators(untrusted, "untrusted");
+  ensureCommitForHeader(untrusted.signedHeader);
+
+  if (header.chainId !== trustedHeader.chainId) {
+    throw new VerificationError(
+      VerificationErrorCode.CHAIN_ID_MISMATCH,
+      `Expected chain ${trustedHeader.chainId}, got ${header.chainId}`,
+    );
+  }
+  if (header.height <= trustedHeader.height) {
+    throw new VerificationError(
+      VerificationErrorCode.HEADER_MISMATCH,
+      `Height ${header.height} is not after trusted height ${trustedHeader.height}`,
+    );
+  }
+  if (compareTimestamps(header.time, trustedHeader.time) <= 0) {
+    throw new VerificationError(
+      VerificationErrorCode.HEADER_MISMATCH,
+      "Header time is not after the trusted header time",
+    );
+  }
+
+  const now = timestampFromDate(options.now ?? new Date());
+  const expires = addSeconds(trustedHeader.time, options.trustingPeriod);
+  if (compareTimestamps(expires, now) <= 0) {
+    throw new VerificationError(
+      VerificationErrorCode.TRUST_EXPIRED,
+      `Trusted header at height ${trustedHeader.height} has expired`,
+    );
+  }
+  const latest = addSeconds(now, options.maxClockDrift ?? 10);
+  if (compareTimestamps(header.time, latest) >= 0) {
+    throw new VerificationError(
+      VerificationErrorCode.HEADER_FROM_FUTURE,
+      `Header at height ${header.height} is from the future`,
+    );
+  }
+
+  if (header.height === trustedHeader.height + 1n) {
+    if (!bytesEqual(header.validatorsHash, trustedHeader.nextValidatorsHash)) {
+      throw new VerificationError(
+        VerificationErrorCode.VALIDATORS_MISMATCH,
+        "Validators are not the next validators of the trusted header",
+      );
+    }
+  } else {
+    await verifyCommitPower(
+      untrusted.signedHeader,
+      nextValidators(trusted),
+      true,
+      trustLevel,
+      verifySignature,
+    );
+  }
+  await verifyCommitPower(
+    untrusted.signedHeader,
+    untrusted.validators,
+    false,
+    { numerator: 2n, denominator: 3n },
+    verifySignature,
+  );
+}
+
+// verifyCommitPower checks that validators with more than fraction of the
+// voting power of validators signed the commit. Signatures are matched to
+// validators by address if the commit is from another validator set, by
+// index otherwise.
+async function verifyCommitPower(
+  { header, commit }: SignedHeader,
+  validators: readonly Validator[],
+  byAddress: boolean,
+  fraction: TrustLevel,
+  verifySignature: SignatureVerifier,
+): Promise<void> {
+  if (!byAddress && commit.signatures.length !== validators.length) {
+    throw new VerificationError(
+      VerificationErrorCode.VALIDATORS_MISMATCH,
+      `Commit has ${commit.signatures.length} signatures for ${validators.length} validators`,
+      { expected: validators.length, actual: commit.signatures.length },
+    );
+  }
+  const total = validators.reduce((sum, v) => sum + v.votingPower, 0n);
+  const needed = (total * fraction.numerator) / fraction.denominator;
+  const seen = new Set<Validator>();
+  let tally = 0n;
+  for (let i = 0; i < commit.signatures.length; i++) {
+    const sig = commit.signatures[i];
+    if (sig.blockIdFlag !== BlockIdFlag.COMMIT) {
+      continue;
+    }
+    const validator = byAddress
+      ? validators.find((v) => bytesEqual(v.address, sig.validatorAddress))
+      : validators[i];
+    if (!validator) {
+      continue;
+    }
+    if (!bytesEqual(validator.address, sig.validatorAddress)) {
+      throw new VerificationError(
+        VerificationErrorCode.VALIDATORS_MISMATCH,
+        `Signature ${i} is not from validator ${i}`,
+        { index: i },
+      );
+    }
+    if (seen.has(validator)) {
+      throw new VerificationError(
+        VerificationErrorCode.INVALID_SIGNATURE,
+        `Validator of signature ${i} signed twice`,
+        { index: i },
+      );
+    }
+    seen.add(validator);
+
+    const message = voteSignBytes(header.chainId, commit, i);
+    if (!(await verifySignature(validator.pubKey, message, sig.signature))) {
+      throw new VerificationError(
+        VerificationErrorCode.INVALID_SIGNATURE,
+        `Invalid signature ${i}`,
+        { index: i },
+      );
+    }
+    tally += validator.votingPower;
+    if (tally > needed) {
+      return;
+    }
+  }
+  throw new VerificationError(
+    VerificationErrorCode.INSUFFICIENT_VOTING_POWER,
+    `Signed voting power ${tally} does not exceed ${needed}`,
+    { expected: Number(needed), actual: Number(tally) },
+  );
+}
+
+function ensureValidators(block: LightBlock, name: string): void {
+  const { header } = block.signedHeader;
+  if (!bytesEqual(validatorSetHash(block.validators), header.validatorsHash)) {
+    throw new VerificationError(
+      VerificationErrorCode.VALIDATORS_MISMATCH,
+      `Validators of the ${name} block do not match its header`,
+    );
+  }
+  if (
+    block.nextValidators &&
+    !bytesEqual(
+      validatorSetHash(block.nextValidators),
+      header.nextValidatorsHash,
+    )
+  ) {
+    throw new VerificationError(
+      VerificationErrorCode.VALIDATORS_MISMATCH,
+      `Next validators of the ${name} block do not match its header`,
+    );
+  }
+}
+
+// nextValidators returns the validators the header of block names for the
+// next block, which may be left out if they don't change
+function nextValidators(block: LightBlock): readonly Validator[] {
+  if (block.nextValidators) {
+    return block.nextValidators;
+  }
+  const { header } = block.signedHeader;
+  if (bytesEqual(header.validatorsHash, header.nextValidatorsHash)) {
+    return block.validators;
+  }
+  throw new VerificationError(
+    VerificationErrorCode.VALIDATORS_MISMATCH,
+    "Trusted block changes validators but has no next validators",
+  );
+}
+
+function ensureCommitForHeader({ header, commit }: SignedHeader): void {
+  if (commit.height !== header.height) {
+    throw new VerificationError(
+      VerificationErrorCode.HEADER_MISMATCH,
+      `Commit for height ${commit.height} signs header at ${header.height}`,
+    );
+  }
+  if (!bytesEqual(commit.blockId.hash, headerHash(header))) {
+    throw new VerificationError(
+      VerificationErrorCode.HEADER_MISMATCH,
+      "Commit signs another block",
+    );
+  }
+}
+
+function signatureVerifier(options: LightClientOptions): SignatureVerifier {
+  if (options.verifySignature) {
+    return options.verifySignature;
+  }
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error("Web Crypto is not available, pass verifySignature");
+  }
+  return webCryptoSignatureVerifier(subtle);
+}
+
+function ensureTrustLevel({ numerator, denominator }: TrustLevel): void {
+  if (
+    denominator <= 0n ||
+    numerator * 3n < denominator ||
+    numerator > denominator
+  ) {
+    throw new Error(
+      `Trust level must be between 1/3 and 1, got ${numerator}/${denominator}`,
+    );
+  }
+}
+
+function addSeconds(time: Timestamp, seconds: number): Timestamp {
+  return {
+    seconds: time.seconds + BigInt(Math.floor(seconds)),
+    nanos: time.nanos,
+  };
+}
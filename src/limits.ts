@@ -0,0 +1,149 @@
+import { VerificationError, VerificationErrorCode } from "./errors";
+import {
+  CommitmentProof,
+  CompressedExistenceProof,
+  ExistenceProof,
+} from "./proto/cosmos/ics23/v1/proofs";
+
+// ProofLimits bounds the size of proofs from untrusted sources, so that they
+// cannot exhaust memory or CPU before they are rejected
+export interface ProofLimits {
+  // encoded size of a single proof
+  readonly maxProofBytes: number;
+  // entries of a batch or compressed batch proof
+  readonly maxBatchEntries: number;
+  // inner nodes in the path of an existence proof
+  readonly maxPathDepth: number;
+  // inner nodes in the lookup table of a compressed batch proof
+  readonly maxLookupInners: number;
+  readonly maxKeyLength: number;
+  readonly maxValueLength: number;
+}
+
+// defaultLimits are well above what IAVL, SMT, JMT and Tendermint stores
+// produce, and apply unless other limits are given
+export const defaultLimits: ProofLimits = {
+  maxProofBytes: 4 * 1024 * 1024,
+  maxBatchEntries: 10_000,
+  maxPathDepth: 256,
+  maxLookupInners: 65_536,
+  maxKeyLength: 64 * 1024,
+  maxValueLength: 2 * 1024 * 1024,
+};
+
+// resolveLimits fills the limits that are not given from defaultLimits
+export function resolveLimits(limits: Partial<ProofLimits> = {}): ProofLimits {
+  return { ...defaultLimits, ...limits };
+}
+
+// decodeProof decodes a CommitmentProof and checks it against limits. It
+// throws a VerificationError if bytes are too large or malformed, or the
+// proof exceeds a limit.
+export function decodeProof(
+  bytes: Uint8Array,
+  limits: Partial<ProofLimits> = {},
+): CommitmentProof {
+  const resolved = resolveLimits(limits);
+  ensureLimit(
+    VerificationErrorCode.PROOF_TOO_LARGE,
+    "maxProofBytes",
+    resolved,
+    bytes.length,
+    "Proof",
+  );
+  let proof: CommitmentProof;
+  try {
+    proof = CommitmentProof.decode(bytes);
+  } catch (err) {
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      `Cannot decode proof: ${err instanceof Error ? err.message : err}`,
+    );
+  }
+  ensureProofLimits(proof, resolved);
+  return proof;
+}
+
+// ensureProofLimits checks the entries, lookup table, paths, keys and values
+// of proof against limits. It throws a VerificationError naming the limit in
+// detail.field if one is exceeded.
+export function ensureProofLimits(
+  proof: CommitmentProof,
+  limits: Partial<ProofLimits> = {},
+): void {
+  const resolved = resolveLimits(limits);
+  const entries = proof.batch?.entries ?? proof.compressed?.entries ?? [];
+  ensureLimit(
+    VerificationErrorCode.TOO_MANY_ENTRIES,
+    "maxBatchEntries",
+    resolved,
+    entries.length,
+    "Batch entries",
+  );
+  ensureLimit(
+    VerificationErrorCode.LOOKUP_TOO_LARGE,
+    "maxLookupInners",
+    resolved,
+    proof.compressed?.lookupInners.length ?? 0,
+    "Lookup table",
+  );
+
+  for (const entry of [proof, ...entries]) {
+    const nonexist = entry.nonexist;
+    if (nonexist) {
+      ensureKey(nonexist.key, resolved);
+    }
+    for (const exist of [entry.exist, nonexist?.left, nonexist?.right]) {
+      if (exist) {
+        ensureExistence(exist, resolved);
+      }
+    }
+  }
+}
+
+function ensureExistence(
+  exist: ExistenceProof | CompressedExistenceProof,
+  limits: ProofLimits,
+): void {
+  ensureKey(exist.key, limits);
+  ensureLimit(
+    VerificationErrorCode.VALUE_TOO_LONG,
+    "maxValueLength",
+    limits,
+    exist.value.length,
+    "Value",
+  );
+  ensureLimit(
+    VerificationErrorCode.PATH_TOO_DEEP,
+    "maxPathDepth",
+    limits,
+    exist.path.length,
+    "Path",
+  );
+}
+
+function ensureKey(key: Uint8Array, limits: ProofLimits): void {
+  ensureLimit(
+    VerificationErrorCode.KEY_TOO_LONG,
+    "maxKeyLength",
+    limits,
+    key.length,
+    "Key",
+  );
+}
+
+function ensureLimit(
+  code: VerificationErrorCode,
+  field: keyof ProofLimits,
+  limits: ProofLimits,
+  actual: number,
+  what: string,
+): void {
+  if (actual > limits[field]) {
+    throw new VerificationError(
+      code,
+      `${what} exceeds ${field}: ${actual} > ${limits[field]}`,
+      { field, expected: limits[field], actual },
+    );
+  }
+}
@@ -1,3 +1,12 @@
+import { VerificationError, VerificationErrorCode } from "./errors";
+import {
+  Hasher,
+  hashFunctionFor,
+  HashSteps,
+  hashSteps,
+  runHashSteps,
+  runHashStepsSync,
+} from "./hasher";
 import {
   HashOp,
   InnerOp,
@@ -5,59 +14,111 @@ import {
   LengthOp,
 } from "./proto/cosmos/ics23/v1/proofs";
 
-const subtle = globalThis.crypto?.subtle;
+export async function applyLeaf(
+  leaf: LeafOp,
+  key: Uint8Array,
+  value: Uint8Array,
+  hasher?: Hasher,
+): Promise<Uint8Array> {
+  return runHashSteps(applyLeafSteps(leaf, key, value), hasher);
+}
 
-async function sha256(preimage: Uint8Array): Promise<Uint8Array> {
-  if (!subtle) {
-    throw new Error("Web Crypto API is not available");
-  }
+export function applyLeafSync(
+  leaf: LeafOp,
+  key: Uint8Array,
+  value: Uint8Array,
+  hasher?: Hasher,
+): Uint8Array {
+  return runHashStepsSync(applyLeafSteps(leaf, key, value), hasher);
+}
+
+export function* applyLeafSteps(
+  leaf: LeafOp,
+  key: Uint8Array,
+  value: Uint8Array,
+): HashSteps<Uint8Array> {
+  const preimage = yield* leafPreimageSteps(leaf, key, value);
+  return yield* hashLeafPreimageSteps(leaf, preimage);
+}
 
-  const digest = await subtle.digest("SHA-256", new Uint8Array(preimage));
-  return new Uint8Array(digest);
+// LeafPreimage holds the parts a LeafOp hashes, key and value already
+// prehashed and length prefixed
+export interface LeafPreimage {
+  readonly prefix: Uint8Array;
+  readonly key: Uint8Array;
+  readonly value: Uint8Array;
 }
 
-export async function applyLeaf(
+export function* leafPreimageSteps(
   leaf: LeafOp,
   key: Uint8Array,
   value: Uint8Array,
-): Promise<Uint8Array> {
+): HashSteps<LeafPreimage> {
   if (key.length === 0) {
-    throw new Error("Missing key");
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Missing key",
+    );
   }
   if (value.length === 0) {
-    throw new Error("Missing value");
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Missing value",
+    );
   }
-  const pkey = await prepareLeafData(
+  const pkey = yield* prepareLeafData(
     ensureHash(leaf.prehashKey),
     ensureLength(leaf.length),
     key,
   );
-  const pvalue = await prepareLeafData(
+  const pvalue = yield* prepareLeafData(
     ensureHash(leaf.prehashValue),
     ensureLength(leaf.length),
     value,
   );
-  const data = new Uint8Array([
-    ...ensureBytes(leaf.prefix),
-    ...pkey,
-    ...pvalue,
-  ]);
-  return doHash(ensureHash(leaf.hash), data);
+  return { prefix: ensureBytes(leaf.prefix), key: pkey, value: pvalue };
+}
+
+export function* hashLeafPreimageSteps(
+  leaf: LeafOp,
+  { prefix, key, value }: LeafPreimage,
+): HashSteps<Uint8Array> {
+  const data = new Uint8Array([...prefix, ...key, ...value]);
+  return yield* hashSteps(ensureHash(leaf.hash), data);
 }
 
 export async function applyInner(
   inner: InnerOp,
   child: Uint8Array,
+  hasher?: Hasher,
 ): Promise<Uint8Array> {
+  return runHashSteps(applyInnerSteps(inner, child), hasher);
+}
+
+export function applyInnerSync(
+  inner: InnerOp,
+  child: Uint8Array,
+  hasher?: Hasher,
+): Uint8Array {
+  return runHashStepsSync(applyInnerSteps(inner, child), hasher);
+}
+
+export function* applyInnerSteps(
+  inner: InnerOp,
+  child: Uint8Array,
+): HashSteps<Uint8Array> {
   if (child.length === 0) {
-    throw new Error("Inner op needs child value");
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Inner op needs child value",
+    );
   }
   const preimage = new Uint8Array([
     ...ensureBytes(inner.prefix),
     ...child,
     ...ensureBytes(inner.suffix),
   ]);
-  return doHash(ensureHash(inner.hash), preimage);
+  return yield* hashSteps(ensureHash(inner.hash), preimage);
 }
 
 function ensure<T>(maybe: T | undefined | null, value: T): T {
@@ -71,38 +132,44 @@ const ensureLength = (l: LengthOp | null | undefined): LengthOp =>
 const ensureBytes = (b: Uint8Array | null | undefined): Uint8Array =>
   ensure(b, new Uint8Array([]));
 
-async function prepareLeafData(
+function* prepareLeafData(
   hashOp: HashOp,
   lengthOp: LengthOp,
   data: Uint8Array,
-): Promise<Uint8Array> {
-  const h = await doHashOrNoop(hashOp, data);
+): HashSteps<Uint8Array> {
+  const h = yield* doHashOrNoop(hashOp, data);
   return doLengthOp(lengthOp, h);
 }
 
 // doHashOrNoop will return the preimage untouched if hashOp == NONE,
 // otherwise, perform doHash
-async function doHashOrNoop(
+function* doHashOrNoop(
   hashOp: HashOp,
   preimage: Uint8Array,
-): Promise<Uint8Array> {
+): HashSteps<Uint8Array> {
   if (hashOp === HashOp.NO_HASH) {
     return preimage;
   }
-  return doHash(hashOp, preimage);
+  return yield* hashSteps(hashOp, preimage);
 }
 
 // doHash will perform the specified hash on the preimage.
 // if hashOp == NONE, it will return an error (use doHashOrNoop if you want different behavior)
+// hasher overrides the registered or default implementation of hashOp
 export async function doHash(
   hashOp: HashOp,
   preimage: Uint8Array,
+  hasher?: Hasher,
 ): Promise<Uint8Array> {
-  if (hashOp === HashOp.SHA256) {
-    return sha256(preimage);
-  }
+  return hashFunctionFor(hashOp, hasher)(preimage);
+}
 
-  throw new Error(`Unsupported hashop: ${hashOp}`);
+export function doHashSync(
+  hashOp: HashOp,
+  preimage: Uint8Array,
+  hasher?: Hasher,
+): Uint8Array {
+  return runHashStepsSync(hashSteps(hashOp, preimage), hasher);
 }
 
 // doLengthOp will calculate the proper prefix and return it prepended
@@ -115,26 +182,40 @@ function doLengthOp(lengthOp: LengthOp, data: Uint8Array): Uint8Array {
       return new Uint8Array([...encodeVarintProto(data.length), ...data]);
     case LengthOp.REQUIRE_32_BYTES:
       if (data.length !== 32) {
-        throw new Error(`Length is ${data.length}, not 32 bytes`);
+        throw new VerificationError(
+          VerificationErrorCode.INVALID_LENGTH,
+          `Length is ${data.length}, not 32 bytes`,
+          { expected: 32, actual: data.length },
+        );
       }
       return data;
     case LengthOp.REQUIRE_64_BYTES:
       if (data.length !== 64) {
-        throw new Error(`Length is ${data.length}, not 64 bytes`);
+        throw new VerificationError(
+          VerificationErrorCode.INVALID_LENGTH,
+          `Length is ${data.length}, not 64 bytes`,
+          { expected: 64, actual: data.length },
+        );
       }
       return data;
+    case LengthOp.VAR_RLP:
+      return new Uint8Array([...encodeVarRlp(data), ...data]);
+    case LengthOp.FIXED32_BIG:
+      return new Uint8Array([...encodeFixed32Big(data.length), ...data]);
     case LengthOp.FIXED32_LITTLE:
-      return new Uint8Array([...encodeFixed32Le(data.length), ...data]);
-    // TODO
-    // case LengthOp_VAR_RLP:
-    // case LengthOp_FIXED32_BIG:
-    // case LengthOp_FIXED64_BIG:
-    // case LengthOp_FIXED64_LITTLE:
+      return new Uint8Array([...encodeFixed32Little(data.length), ...data]);
+    case LengthOp.FIXED64_BIG:
+      return new Uint8Array([...encodeFixed64Big(data.length), ...data]);
+    case LengthOp.FIXED64_LITTLE:
+      return new Uint8Array([...encodeFixed64Little(data.length), ...data]);
   }
-  throw new Error(`Unsupported lengthop: ${lengthOp}`);
+  throw new VerificationError(
+    VerificationErrorCode.UNSUPPORTED_OP,
+    `Unsupported lengthop: ${lengthOp}`,
+  );
 }
 
-function encodeVarintProto(n: number): Uint8Array {
+export function encodeVarintProto(n: number): Uint8Array {
   let enc: readonly number[] = [];
   let l = n;
   while (l >= 128) {
@@ -146,12 +227,48 @@ function encodeVarintProto(n: number): Uint8Array {
   return new Uint8Array(enc);
 }
 
-function encodeFixed32Le(n: number): Uint8Array {
-  const enc = new Uint8Array(4);
+// encodeVarRlp returns the header of the RLP encoding of data as a byte string.
+// A single byte below 0x80 is its own encoding, so it gets no header at all.
+function encodeVarRlp(data: Uint8Array): Uint8Array {
+  if (data.length === 1 && data[0] < 0x80) {
+    return new Uint8Array([]);
+  }
+  if (data.length <= 55) {
+    return new Uint8Array([0x80 + data.length]);
+  }
+  const len = encodeFixedLittle(data.length, 8).reverse();
+  const significant = len.slice(len.findIndex((b) => b !== 0));
+  return new Uint8Array([0xb7 + significant.length, ...significant]);
+}
+
+function encodeFixedLittle(n: number, size: number): Uint8Array {
+  if (n >= 2 ** (8 * size)) {
+    throw new VerificationError(
+      VerificationErrorCode.INVALID_LENGTH,
+      `Length ${n} does not fit in ${size} bytes`,
+    );
+  }
+  const enc = new Uint8Array(size);
   let l = n;
-  for (let i = enc.length; i > 0; i--) {
-    enc[Math.abs(i - enc.length)] = l % 256;
+  for (let i = 0; i < size; i++) {
+    enc[i] = l % 256;
     l = Math.floor(l / 256);
   }
   return enc;
 }
+
+export function encodeFixed32Little(n: number): Uint8Array {
+  return encodeFixedLittle(n, 4);
+}
+
+export function encodeFixed32Big(n: number): Uint8Array {
+  return encodeFixedLittle(n, 4).reverse();
+}
+
+export function encodeFixed64Little(n: number): Uint8Array {
+  return encodeFixedLittle(n, 8);
+}
+
+export function encodeFixed64Big(n: number): Uint8Array {
+  return encodeFixedLittle(n, 8).reverse();
+}
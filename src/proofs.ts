@@ -1,4 +1,17 @@
-import { applyInner, applyLeaf, doHash } from "./ops";
+import { VerificationError, VerificationErrorCode } from "./errors";
+import {
+  Hasher,
+  HashSteps,
+  hashSteps,
+  runHashSteps,
+  runHashStepsSync,
+} from "./hasher";
+import { ProofLimits } from "./limits";
+import {
+  applyInnerSteps,
+  hashLeafPreimageSteps,
+  leafPreimageSteps,
+} from "./ops";
 import {
   ExistenceProof,
   HashOp,
@@ -15,6 +28,8 @@ import {
   ensureInner,
   ensureLeaf,
 } from "./specs";
+import { TraceContext, VerificationTrace } from "./trace";
+import { ensureValidSpec } from "./validate";
 
 export const iavlSpec: ProofSpec = {
   leafSpec: {
@@ -81,15 +96,49 @@ export const smtSpec: ProofSpec = {
 
 export type CommitmentRoot = Uint8Array;
 
+export interface VerifyOptions {
+  // hasher overrides the registered or default hash implementations
+  readonly hasher?: Hasher;
+  // trace records every hashing step of the verification, see createTrace
+  readonly trace?: VerificationTrace;
+  // validateSpec rejects specs with errors found by validateProofSpec before
+  // looking at the proof
+  readonly validateSpec?: boolean;
+  // limits overrides defaultLimits for the proofs verifyMembership and the
+  // other CommitmentProof functions accept
+  readonly limits?: Partial<ProofLimits>;
+}
+
+// traceContext is where the steps of a verification with options are recorded
+export function traceContext(options: VerifyOptions): TraceContext | undefined {
+  return options.trace && { trace: options.trace };
+}
+
 export async function keyForComparison(
   spec: ProofSpec,
   key: Uint8Array,
+  hasher?: Hasher,
 ): Promise<Uint8Array> {
+  return runHashSteps(keyForComparisonSteps(spec, key), hasher);
+}
+
+export function keyForComparisonSync(
+  spec: ProofSpec,
+  key: Uint8Array,
+  hasher?: Hasher,
+): Uint8Array {
+  return runHashStepsSync(keyForComparisonSteps(spec, key), hasher);
+}
+
+export function* keyForComparisonSteps(
+  spec: ProofSpec,
+  key: Uint8Array,
+): HashSteps<Uint8Array> {
   if (!spec.prehashKeyBeforeComparison) {
     return key;
   }
 
-  return doHash(spec.leafSpec!.prehashKey!, key);
+  return yield* hashSteps(spec.leafSpec!.prehashKey!, key);
 }
 
 // verifyExistence will throw an error if the proof doesn't link key, value -> root
@@ -100,12 +149,50 @@ export async function verifyExistence(
   root: CommitmentRoot,
   key: Uint8Array,
   value: Uint8Array,
+  options: VerifyOptions = {},
 ): Promise<void> {
+  if (options.validateSpec) {
+    ensureValidSpec(spec);
+  }
+  return runHashSteps(
+    verifyExistenceSteps(proof, spec, root, key, value, traceContext(options)),
+    options.hasher,
+  );
+}
+
+export function verifyExistenceSync(
+  proof: ExistenceProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  value: Uint8Array,
+  options: VerifyOptions = {},
+): void {
+  if (options.validateSpec) {
+    ensureValidSpec(spec);
+  }
+  return runHashStepsSync(
+    verifyExistenceSteps(proof, spec, root, key, value, traceContext(options)),
+    options.hasher,
+  );
+}
+
+export function* verifyExistenceSteps(
+  proof: ExistenceProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  value: Uint8Array,
+  trace?: TraceContext,
+): HashSteps<void> {
   ensureSpec(proof, spec);
-  const calc = await calculateExistenceRoot(proof);
-  ensureBytesEqual(calc, root);
-  ensureBytesEqual(key, proof.key!);
-  ensureBytesEqual(value, proof.value!);
+  const calc = yield* calculateExistenceRootSteps(
+    proof,
+    trace && { ...trace, spec },
+  );
+  ensureBytesEqual(root, calc, VerificationErrorCode.ROOT_MISMATCH);
+  ensureBytesEqual(key, proof.key!, VerificationErrorCode.KEY_MISMATCH);
+  ensureBytesEqual(value, proof.value!, VerificationErrorCode.VALUE_MISMATCH);
 }
 
 // Verify does all checks to ensure the proof has valid non-existence proofs,
@@ -116,50 +203,93 @@ export async function verifyNonExistence(
   spec: ProofSpec,
   root: CommitmentRoot,
   key: Uint8Array,
+  options: VerifyOptions = {},
 ): Promise<void> {
+  if (options.validateSpec) {
+    ensureValidSpec(spec);
+  }
+  return runHashSteps(
+    verifyNonExistenceSteps(proof, spec, root, key, traceContext(options)),
+    options.hasher,
+  );
+}
+
+export function verifyNonExistenceSync(
+  proof: NonExistenceProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  options: VerifyOptions = {},
+): void {
+  if (options.validateSpec) {
+    ensureValidSpec(spec);
+  }
+  return runHashStepsSync(
+    verifyNonExistenceSteps(proof, spec, root, key, traceContext(options)),
+    options.hasher,
+  );
+}
+
+export function* verifyNonExistenceSteps(
+  proof: NonExistenceProof,
+  spec: ProofSpec,
+  root: CommitmentRoot,
+  key: Uint8Array,
+  trace?: TraceContext,
+): HashSteps<void> {
   let leftKey: Uint8Array | undefined;
   let rightKey: Uint8Array | undefined;
 
   if (proof.left) {
-    await verifyExistence(
+    yield* verifyExistenceSteps(
       proof.left,
       spec,
       root,
       proof.left.key!,
       proof.left.value!,
+      trace && { ...trace, side: "left" },
     );
     leftKey = proof.left.key!;
   }
   if (proof.right) {
-    await verifyExistence(
+    yield* verifyExistenceSteps(
       proof.right,
       spec,
       root,
       proof.right.key!,
       proof.right.value!,
+      trace && { ...trace, side: "right" },
     );
     rightKey = proof.right.key!;
   }
 
   if (!leftKey && !rightKey) {
-    throw new Error("neither left nor right proof defined");
+    throw new VerificationError(
+      VerificationErrorCode.MISSING_NEIGHBORS,
+      "neither left nor right proof defined",
+    );
   }
 
   if (leftKey) {
     ensureBytesBefore(
-      await keyForComparison(spec, leftKey),
-      await keyForComparison(spec, key),
+      yield* keyForComparisonSteps(spec, leftKey),
+      yield* keyForComparisonSteps(spec, key),
+      VerificationErrorCode.KEY_OUT_OF_RANGE,
     );
   }
   if (rightKey) {
     ensureBytesBefore(
-      await keyForComparison(spec, key),
-      await keyForComparison(spec, rightKey),
+      yield* keyForComparisonSteps(spec, key),
+      yield* keyForComparisonSteps(spec, rightKey),
+      VerificationErrorCode.KEY_OUT_OF_RANGE,
     );
   }
 
   if (!spec.innerSpec) {
-    throw new Error("no inner spec");
+    throw new VerificationError(
+      VerificationErrorCode.INVALID_SPEC,
+      "no inner spec",
+    );
   }
   if (!leftKey) {
     ensureLeftMost(spec.innerSpec, proof.right!.path!);
@@ -176,18 +306,66 @@ export async function verifyNonExistence(
 // Returns error if the calculations cannot be performed.
 export async function calculateExistenceRoot(
   proof: ExistenceProof,
+  options: VerifyOptions = {},
 ): Promise<CommitmentRoot> {
+  return runHashSteps(
+    calculateExistenceRootSteps(proof, traceContext(options)),
+    options.hasher,
+  );
+}
+
+export function calculateExistenceRootSync(
+  proof: ExistenceProof,
+  options: VerifyOptions = {},
+): CommitmentRoot {
+  return runHashStepsSync(
+    calculateExistenceRootSteps(proof, traceContext(options)),
+    options.hasher,
+  );
+}
+
+export function* calculateExistenceRootSteps(
+  proof: ExistenceProof,
+  trace?: TraceContext,
+): HashSteps<CommitmentRoot> {
   if (!proof.key || !proof.value) {
-    throw new Error("Existence proof needs key and value set");
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Existence proof needs key and value set",
+    );
   }
   if (!proof.leaf) {
-    throw new Error("Existence proof must start with a leaf operation");
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Existence proof must start with a leaf operation",
+    );
   }
   const path = proof.path || [];
 
-  let res = await applyLeaf(proof.leaf, proof.key, proof.value);
-  for (const inner of path) {
-    res = await applyInner(inner, res);
+  const preimage = yield* leafPreimageSteps(proof.leaf, proof.key, proof.value);
+  let res = yield* hashLeafPreimageSteps(proof.leaf, preimage);
+  trace?.trace.steps.push({
+    type: "leaf",
+    side: trace.side,
+    ...preimage,
+    output: res,
+  });
+
+  const innerSpec = (trace?.spec ?? trace?.trace.spec)?.innerSpec;
+  for (let depth = 0; depth < path.length; depth++) {
+    const inner = path[depth];
+    const child = res;
+    res = yield* applyInnerSteps(inner, child);
+    trace?.trace.steps.push({
+      type: "inner",
+      side: trace.side,
+      depth,
+      prefix: inner.prefix || new Uint8Array(),
+      child,
+      suffix: inner.suffix || new Uint8Array(),
+      output: res,
+      branch: innerSpec && branchFromPadding(innerSpec, inner),
+    });
   }
   return res;
 }
@@ -195,49 +373,86 @@ export async function calculateExistenceRoot(
 // ensureSpec throws an Error if proof doesn't fulfill spec
 export function ensureSpec(proof: ExistenceProof, spec: ProofSpec): void {
   if (!proof.leaf) {
-    throw new Error("Existence proof must start with a leaf operation");
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Existence proof must start with a leaf operation",
+    );
   }
   if (!spec.leafSpec) {
-    throw new Error("Spec must include leafSpec");
+    throw new VerificationError(
+      VerificationErrorCode.INVALID_SPEC,
+      "Spec must include leafSpec",
+    );
   }
   if (!spec.innerSpec) {
-    throw new Error("Spec must include innerSpec");
+    throw new VerificationError(
+      VerificationErrorCode.INVALID_SPEC,
+      "Spec must include innerSpec",
+    );
   }
   ensureLeaf(proof.leaf, spec.leafSpec);
 
   const path = proof.path || [];
+  ensureDepth(path, spec);
+  for (const inner of path) {
+    ensureInner(inner, spec.leafSpec.prefix, spec.innerSpec);
+  }
+}
+
+export function ensureDepth(path: readonly InnerOp[], spec: ProofSpec): void {
   if (spec.minDepth && path.length < spec.minDepth) {
-    throw new Error(`Too few inner nodes ${path.length}`);
+    throw new VerificationError(
+      VerificationErrorCode.DEPTH_TOO_SHALLOW,
+      `Too few inner nodes ${path.length}`,
+      { expected: spec.minDepth, actual: path.length },
+    );
   }
   if (spec.maxDepth && path.length > spec.maxDepth) {
-    throw new Error(`Too many inner nodes ${path.length}`);
-  }
-  for (const inner of path) {
-    ensureInner(inner, spec.leafSpec.prefix, spec.innerSpec);
+    throw new VerificationError(
+      VerificationErrorCode.DEPTH_EXCEEDED,
+      `Too many inner nodes ${path.length}`,
+      { expected: spec.maxDepth, actual: path.length },
+    );
   }
 }
 
 function ensureLeftMost(spec: InnerSpec, path: readonly InnerOp[]): void {
   const { minPrefix, maxPrefix, suffix } = getPadding(spec, 0);
 
-  // ensure every step has a prefix and suffix defined to be leftmost
-  for (const step of path) {
-    if (!hasPadding(step, minPrefix, maxPrefix, suffix)) {
-      throw new Error("Step not leftmost");
+  // ensure every step has a prefix and suffix defined to be leftmost,
+  // unless everything to its left is empty
+  path.forEach((step, index) => {
+    if (
+      !hasPadding(step, minPrefix, maxPrefix, suffix) &&
+      !leftBranchesAreEmpty(spec, step)
+    ) {
+      throw new VerificationError(
+        VerificationErrorCode.NOT_LEFTMOST,
+        "Step not leftmost",
+        { index },
+      );
     }
-  }
+  });
 }
 
 function ensureRightMost(spec: InnerSpec, path: readonly InnerOp[]): void {
   const len = spec.childOrder!.length - 1;
   const { minPrefix, maxPrefix, suffix } = getPadding(spec, len);
 
-  // ensure every step has a prefix and suffix defined to be leftmost
-  for (const step of path) {
-    if (!hasPadding(step, minPrefix, maxPrefix, suffix)) {
-      throw new Error("Step not leftmost");
+  // ensure every step has a prefix and suffix defined to be rightmost,
+  // unless everything to its right is empty
+  path.forEach((step, index) => {
+    if (
+      !hasPadding(step, minPrefix, maxPrefix, suffix) &&
+      !rightBranchesAreEmpty(spec, step)
+    ) {
+      throw new VerificationError(
+        VerificationErrorCode.NOT_RIGHTMOST,
+        "Step not rightmost",
+        { index },
+      );
     }
-  }
+  });
 }
 
 export function ensureLeftNeighbor(
@@ -261,7 +476,11 @@ export function ensureLeftNeighbor(
   // now topleft and topright are the first divergent nodes
   // make sure they are left and right of each other
   if (!isLeftStep(spec, topleft, topright)) {
-    throw new Error(`Not left neightbor at first divergent step`);
+    throw new VerificationError(
+      VerificationErrorCode.NOT_LEFT_NEIGHBOR,
+      `Not left neightbor at first divergent step`,
+      { index: mutleft.length },
+    );
   }
 
   // make sure the paths are left and right most possibilities respectively
@@ -269,6 +488,51 @@ export function ensureLeftNeighbor(
   ensureLeftMost(spec, mutright);
 }
 
+// leftBranchesAreEmpty returns true if all siblings left of the child are
+// emptyChild placeholders, which is as good as being leftmost
+function leftBranchesAreEmpty(spec: InnerSpec, op: InnerOp): boolean {
+  const idx = branchFromPadding(spec, op);
+  const childSize = spec.childSize!;
+  if (!idx || !spec.emptyChild?.length) {
+    return false;
+  }
+  const prefix = op.prefix || new Uint8Array();
+  // the siblings are at the end of the prefix
+  const start = prefix.length - idx * childSize;
+  if (start < 0) {
+    return false;
+  }
+  for (let i = 0; i < idx; i++) {
+    const from = start + i * childSize;
+    if (!bytesEqual(spec.emptyChild, prefix.slice(from, from + childSize))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// rightBranchesAreEmpty returns true if all siblings right of the child are
+// emptyChild placeholders, which is as good as being rightmost
+function rightBranchesAreEmpty(spec: InnerSpec, op: InnerOp): boolean {
+  const idx = branchFromPadding(spec, op);
+  const childSize = spec.childSize!;
+  if (idx === undefined || !spec.emptyChild?.length) {
+    return false;
+  }
+  const count = spec.childOrder!.length - 1 - idx;
+  const suffix = op.suffix || new Uint8Array();
+  if (count === 0 || suffix.length !== count * childSize) {
+    return false;
+  }
+  for (let i = 0; i < count; i++) {
+    const from = i * childSize;
+    if (!bytesEqual(spec.emptyChild, suffix.slice(from, from + childSize))) {
+      return false;
+    }
+  }
+  return true;
+}
+
 // isLeftStep assumes left and right have common parents
 // checks if left is exactly one slot to the left of right
 function isLeftStep(spec: InnerSpec, left: InnerOp, right: InnerOp): boolean {
@@ -278,13 +542,28 @@ function isLeftStep(spec: InnerSpec, left: InnerOp, right: InnerOp): boolean {
 }
 
 function orderFromPadding(spec: InnerSpec, inner: InnerOp): number {
+  const branch = branchFromPadding(spec, inner);
+  if (branch === undefined) {
+    throw new VerificationError(
+      VerificationErrorCode.INVALID_PADDING,
+      `Cannot find any valid spacing for this node`,
+    );
+  }
+  return branch;
+}
+
+// branchFromPadding is orderFromPadding without throwing
+function branchFromPadding(
+  spec: InnerSpec,
+  inner: InnerOp,
+): number | undefined {
   for (let branch = 0; branch < spec.childOrder!.length; branch++) {
     const { minPrefix, maxPrefix, suffix } = getPadding(spec, branch);
     if (hasPadding(inner, minPrefix, maxPrefix, suffix)) {
       return branch;
     }
   }
-  throw new Error(`Cannot find any valid spacing for this node`);
+  return undefined;
 }
 
 function hasPadding(
@@ -322,7 +601,10 @@ function getPadding(spec: InnerSpec, branch: number): PaddingResult {
 
 function getPosition(order: readonly number[], branch: number): number {
   if (branch < 0 || branch >= order.length) {
-    throw new Error(`Invalid branch: ${branch}`);
+    throw new VerificationError(
+      VerificationErrorCode.INVALID_SPEC,
+      `Invalid branch: ${branch}`,
+    );
   }
   return order.findIndex((val) => val === branch);
 }
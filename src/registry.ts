@@ -0,0 +1,99 @@
+import { iavlSpec, smtSpec, tendermintSpec } from "./proofs";
+import { ProofSpec } from "./proto/cosmos/ics23/v1/proofs";
+import { ensureValidSpec } from "./validate";
+import { webcatSpec } from "./webcat";
+
+const builtinSpecs: ReadonlyMap<string, ProofSpec> = new Map([
+  ["iavl", iavlSpec],
+  ["tendermint", tendermintSpec],
+  ["smt", smtSpec],
+  ["webcat", webcatSpec],
+]);
+
+const customSpecs = new Map<string, ProofSpec>();
+
+// registerSpec makes spec available under name. Built-in names can't be
+// taken, and a name registered before must be unregistered first.
+// Specs with errors found by validateProofSpec are rejected.
+export function registerSpec(name: string, spec: ProofSpec): void {
+  if (name.length === 0) {
+    throw new Error("Spec name must not be empty");
+  }
+  if (builtinSpecs.has(name) || customSpecs.has(name)) {
+    throw new Error(`Spec ${name} is already registered`);
+  }
+  ensureValidSpec(spec);
+  customSpecs.set(name, spec);
+}
+
+// unregisterSpec removes a spec added with registerSpec. It returns false if
+// there was none with that name.
+export function unregisterSpec(name: string): boolean {
+  return customSpecs.delete(name);
+}
+
+// getSpec looks up a built-in or registered spec. It throws for unknown names.
+export function getSpec(name: string): ProofSpec {
+  const spec = builtinSpecs.get(name) ?? customSpecs.get(name);
+  if (!spec) {
+    throw new Error(`Unknown spec ${name}`);
+  }
+  return spec;
+}
+
+export function hasSpec(name: string): boolean {
+  return builtinSpecs.has(name) || customSpecs.has(name);
+}
+
+// specNames lists the built-in names first, then the registered ones in
+// registration order
+export function specNames(): string[] {
+  return [...builtinSpecs.keys(), ...customSpecs.keys()];
+}
+
+// specName finds the name spec was registered under, comparing by identity
+export function specName(spec: ProofSpec): string | undefined {
+  for (const [name, candidate] of [...builtinSpecs, ...customSpecs]) {
+    if (candidate === spec) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+// specToJson encodes spec in the protobuf JSON mapping, with enums as names
+// and bytes as base64, as the Go and Rust implementations do
+export function specToJson(spec: ProofSpec): unknown {
+  return ProofSpec.toJSON(spec);
+}
+
+// specFromJson decodes the protobuf JSON mapping of a spec. It throws a
+// VerificationError if the spec is not valid.
+export function specFromJson(json: unknown): ProofSpec {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error("Spec JSON must be an object");
+  }
+  const spec = ProofSpec.fromJSON(json);
+  ensureValidSpec(spec);
+  return spec;
+}
+
+export function specToBinary(spec: ProofSpec): Uint8Array {
+  return ProofSpec.encode(spec).finish();
+}
+
+// specFromBinary decodes a protobuf encoded spec. It throws a
+// VerificationError if the spec is not valid.
+export function specFromBinary(data: Uint8Array): ProofSpec {
+  const spec = ProofSpec.decode(data);
+  ensureValidSpec(spec);
+  return spec;
+}
+
+// resolveSpec turns a spec reference from a configuration file into a spec.
+// A string is looked up by name, anything else is decoded as embedded JSON.
+export function resolveSpec(reference: unknown): ProofSpec {
+  return typeof reference === "string"
+    ? getSpec(reference)
+    : specFromJson(reference);
+}
@@ -0,0 +1,196 @@
+import { sha256 } from "./hashes";
+import { encodeVarintProto } from "./ops";
+import {
+  CommitmentProof,
+  ExistenceProof,
+  HashOp,
+  InnerOp,
+  LengthOp,
+} from "./proto/cosmos/ics23/v1/proofs";
+import { compareBytes } from "./specs";
+
+interface SimpleNode {
+  readonly hash: Uint8Array;
+  readonly left?: SimpleNode;
+  readonly right?: SimpleNode;
+  // number of leaves below this node
+  readonly size: number;
+}
+
+// hashFromByteSlices computes the root of the CometBFT simple Merkle tree
+// (RFC 6962) over items. An empty list hashes to sha256 of nothing.
+export function hashFromByteSlices(items: readonly Uint8Array[]): Uint8Array {
+  return buildNode(items.map(leafHash))?.hash ?? sha256(new Uint8Array());
+}
+
+// SimpleMerkleTree is the simple Merkle tree CometBFT and the Cosmos SDK
+// multistore build over key-value pairs sorted by key. Its proofs match
+// tendermintSpec.
+export class SimpleMerkleTree {
+  private readonly pairs: readonly (readonly [Uint8Array, Uint8Array])[];
+  private readonly root: SimpleNode | undefined;
+
+  constructor(entries: Iterable<readonly [Uint8Array, Uint8Array]>) {
+    const pairs = [...entries].sort(([a], [b]) => compareBytes(a, b));
+    pairs.forEach(([key, value], i) => {
+      if (key.length === 0) {
+        throw new Error("Key must not be empty");
+      }
+      if (value.length === 0) {
+        throw new Error("Value must not be empty");
+      }
+      if (i > 0 && compareBytes(pairs[i - 1][0], key) === 0) {
+        throw new Error("Keys must be unique");
+      }
+    });
+    this.pairs = pairs;
+    this.root = buildNode(
+      pairs.map(([key, value]) => leafHash(kvPairBytes(key, value))),
+    );
+  }
+
+  get size(): number {
+    return this.pairs.length;
+  }
+
+  get(key: Uint8Array): Uint8Array | undefined {
+    const index = this.search(key);
+    return index < this.pairs.length &&
+      compareBytes(this.pairs[index][0], key) === 0
+      ? this.pairs[index][1]
+      : undefined;
+  }
+
+  has(key: Uint8Array): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  rootHash(): Uint8Array {
+    return this.root?.hash ?? sha256(new Uint8Array());
+  }
+
+  // getMembershipProof proves key is in the tree. It throws if it is not.
+  getMembershipProof(key: Uint8Array): CommitmentProof {
+    if (!this.has(key)) {
+      throw new Error("Cannot create existence proof if key is not in tree");
+    }
+    return { exist: this.existenceProof(this.search(key)) };
+  }
+
+  // getNonMembershipProof proves key is not in the tree by proving its
+  // neighbors. It throws if key is in the tree.
+  getNonMembershipProof(key: Uint8Array): CommitmentProof {
+    if (this.pairs.length === 0) {
+      throw new Error("Cannot create non-existence proof for an empty tree");
+    }
+    if (this.has(key)) {
+      throw new Error("Cannot create non-existence proof if key is in tree");
+    }
+    // the right neighbor is the first key after key
+    const right = this.search(key);
+    return {
+      nonexist: {
+        key,
+        left: right > 0 ? this.existenceProof(right - 1) : undefined,
+        right:
+          right < this.pairs.length ? this.existenceProof(right) : undefined,
+      },
+    };
+  }
+
+  // search returns the index of the first pair with a key not below key
+  private search(key: Uint8Array): number {
+    let low = 0;
+    let high = this.pairs.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (compareBytes(this.pairs[mid][0], key) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private existenceProof(index: number): ExistenceProof {
+    const path: InnerOp[] = [];
+    let node = this.root!;
+    let offset = index;
+    while (node.left && node.right) {
+      if (offset < node.left.size) {
+        path.unshift({
+          hash: HashOp.SHA256,
+          prefix: Uint8Array.from([1]),
+          suffix: node.right.hash,
+        });
+        node = node.left;
+      } else {
+        path.unshift({
+          hash: HashOp.SHA256,
+          prefix: new Uint8Array([1, ...node.left.hash]),
+          suffix: new Uint8Array(),
+        });
+        offset -= node.left.size;
+        node = node.right;
+      }
+    }
+
+    const [key, value] = this.pairs[index];
+    return {
+      key,
+      value,
+      leaf: {
+        hash: HashOp.SHA256,
+        prehashKey: HashOp.NO_HASH,
+        prehashValue: HashOp.SHA256,
+        length: LengthOp.VAR_PROTO,
+        prefix: Uint8Array.from([0]),
+      },
+      path,
+    };
+  }
+}
+
+function buildNode(hashes: readonly Uint8Array[]): SimpleNode | undefined {
+  if (hashes.length === 0) {
+    return undefined;
+  }
+  if (hashes.length === 1) {
+    return { hash: hashes[0], size: 1 };
+  }
+  const split = splitPoint(hashes.length);
+  const left = buildNode(hashes.slice(0, split))!;
+  const right = buildNode(hashes.slice(split))!;
+  return {
+    hash: sha256(new Uint8Array([1, ...left.hash, ...right.hash])),
+    left,
+    right,
+    size: hashes.length,
+  };
+}
+
+// splitPoint is the largest power of 2 less than n
+function splitPoint(n: number): number {
+  let split = 1;
+  while (split * 2 < n) {
+    split *= 2;
+  }
+  return split;
+}
+
+function leafHash(leaf: Uint8Array): Uint8Array {
+  return sha256(new Uint8Array([0, ...leaf]));
+}
+
+// kvPairBytes encodes a pair like the Cosmos SDK multistore does, both parts
+// length prefixed and the value hashed first
+function kvPairBytes(key: Uint8Array, value: Uint8Array): Uint8Array {
+  const valueHash = sha256(value);
+  return new Uint8Array([
+    ...encodeVarintProto(key.length),
+    ...key,
+    ...encodeVarintProto(valueHash.length),
+    ...valueHash,
+  ]);
+}
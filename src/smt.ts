@@ -0,0 +1,230 @@
+import { sha256 } from "./hashes";
+import {
+  CommitmentProof,
+  ExistenceProof,
+  HashOp,
+  InnerOp,
+  LengthOp,
+} from "./proto/cosmos/ics23/v1/proofs";
+import { compareBytes } from "./specs";
+
+// SparseMerkleTreeOptions describe how nodes are hashed. Leaves hash
+// leafPrefix || sha256(key) || sha256(value), inner nodes
+// innerPrefix || left || right, and empty subtrees are placeholder.
+export interface SparseMerkleTreeOptions {
+  readonly leafPrefix: Uint8Array;
+  readonly innerPrefix: Uint8Array;
+  readonly placeholder: Uint8Array;
+}
+
+// smtOptions are the options matching smtSpec
+export const smtOptions: SparseMerkleTreeOptions = {
+  leafPrefix: Uint8Array.from([0]),
+  innerPrefix: Uint8Array.from([1]),
+  placeholder: new Uint8Array(32),
+};
+
+interface SparseLeaf {
+  readonly key: Uint8Array;
+  readonly value: Uint8Array;
+  // sha256 of the key, which decides the position in the tree
+  readonly path: Uint8Array;
+  readonly hash: Uint8Array;
+}
+
+interface SparseNode {
+  readonly hash: Uint8Array;
+  readonly leaf?: SparseLeaf;
+  readonly left?: SparseNode;
+  readonly right?: SparseNode;
+}
+
+// SparseMerkleTree is an in-memory sparse Merkle tree over 256-bit hashed
+// keys. A subtree holding a single leaf is replaced by that leaf, so proofs
+// only go as deep as needed to tell keys apart. The default options produce
+// proofs matching smtSpec.
+export class SparseMerkleTree {
+  private readonly options: SparseMerkleTreeOptions;
+  private readonly leaves = new Map<string, SparseLeaf>();
+  // rebuilt lazily after every change
+  private root: SparseNode | undefined;
+  private built = false;
+
+  constructor(options: SparseMerkleTreeOptions = smtOptions) {
+    this.options = options;
+  }
+
+  get size(): number {
+    return this.leaves.size;
+  }
+
+  get(key: Uint8Array): Uint8Array | undefined {
+    return this.leaves.get(pathId(sha256(key)))?.value;
+  }
+
+  has(key: Uint8Array): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  // set inserts or updates key. It returns true if key already existed.
+  set(key: Uint8Array, value: Uint8Array): boolean {
+    if (key.length === 0) {
+      throw new Error("Key must not be empty");
+    }
+    if (value.length === 0) {
+      throw new Error("Value must not be empty");
+    }
+    const path = sha256(key);
+    const hash = sha256(
+      new Uint8Array([...this.options.leafPrefix, ...path, ...sha256(value)]),
+    );
+    const id = pathId(path);
+    const updated = this.leaves.has(id);
+    this.leaves.set(id, { key, value, path, hash });
+    this.built = false;
+    return updated;
+  }
+
+  // remove deletes key, returning its value if it was present
+  remove(key: Uint8Array): Uint8Array | undefined {
+    const id = pathId(sha256(key));
+    const leaf = this.leaves.get(id);
+    if (leaf) {
+      this.leaves.delete(id);
+      this.built = false;
+    }
+    return leaf?.value;
+  }
+
+  // rootHash of an empty tree is the placeholder
+  rootHash(): Uint8Array {
+    return this.rootNode()?.hash ?? this.options.placeholder;
+  }
+
+  // getMembershipProof proves key is in the tree. It throws if it is not.
+  getMembershipProof(key: Uint8Array): CommitmentProof {
+    const exist = this.existenceProof(sha256(key));
+    if (!exist) {
+      throw new Error("Cannot create existence proof if key is not in tree");
+    }
+    return { exist };
+  }
+
+  // getNonMembershipProof proves key is not in the tree by proving the
+  // neighbors of its hash. It throws if key is in the tree.
+  getNonMembershipProof(key: Uint8Array): CommitmentProof {
+    if (this.leaves.size === 0) {
+      throw new Error("Cannot create non-existence proof for an empty tree");
+    }
+    const path = sha256(key);
+    if (this.leaves.has(pathId(path))) {
+      throw new Error("Cannot create non-existence proof if key is in tree");
+    }
+    let left: SparseLeaf | undefined;
+    let right: SparseLeaf | undefined;
+    for (const leaf of this.leaves.values()) {
+      if (compareBytes(leaf.path, path) < 0) {
+        if (!left || compareBytes(left.path, leaf.path) < 0) {
+          left = leaf;
+        }
+      } else if (!right || compareBytes(leaf.path, right.path) < 0) {
+        right = leaf;
+      }
+    }
+    return {
+      nonexist: {
+        key,
+        left: left && this.existenceProof(left.path),
+        right: right && this.existenceProof(right.path),
+      },
+    };
+  }
+
+  private rootNode(): SparseNode | undefined {
+    if (!this.built) {
+      const sorted = [...this.leaves.values()].sort((a, b) =>
+        compareBytes(a.path, b.path),
+      );
+      this.root = this.build(sorted, 0);
+      this.built = true;
+    }
+    return this.root;
+  }
+
+  // build hashes the subtree of leaves, which are sorted and share their
+  // first depth bits
+  private build(
+    leaves: readonly SparseLeaf[],
+    depth: number,
+  ): SparseNode | undefined {
+    if (leaves.length === 0) {
+      return undefined;
+    }
+    if (leaves.length === 1) {
+      return { hash: leaves[0].hash, leaf: leaves[0] };
+    }
+    let split = leaves.findIndex((leaf) => bitIsSet(leaf.path, depth));
+    if (split < 0) {
+      split = leaves.length;
+    }
+    const left = this.build(leaves.slice(0, split), depth + 1);
+    const right = this.build(leaves.slice(split), depth + 1);
+    const hash = sha256(
+      new Uint8Array([
+        ...this.options.innerPrefix,
+        ...(left?.hash ?? this.options.placeholder),
+        ...(right?.hash ?? this.options.placeholder),
+      ]),
+    );
+    return { hash, left, right };
+  }
+
+  private existenceProof(path: Uint8Array): ExistenceProof | undefined {
+    const steps: InnerOp[] = [];
+    let node = this.rootNode();
+    for (let depth = 0; node && !node.leaf; depth++) {
+      const { innerPrefix, placeholder } = this.options;
+      if (bitIsSet(path, depth)) {
+        const sibling = node.left?.hash ?? placeholder;
+        steps.unshift({
+          hash: HashOp.SHA256,
+          prefix: new Uint8Array([...innerPrefix, ...sibling]),
+          suffix: new Uint8Array(),
+        });
+        node = node.right;
+      } else {
+        steps.unshift({
+          hash: HashOp.SHA256,
+          prefix: innerPrefix,
+          suffix: node.right?.hash ?? placeholder,
+        });
+        node = node.left;
+      }
+    }
+    const leaf = node?.leaf;
+    if (!leaf || compareBytes(leaf.path, path) !== 0) {
+      return undefined;
+    }
+
+    return {
+      key: leaf.key,
+      value: leaf.value,
+      leaf: {
+        hash: HashOp.SHA256,
+        prehashKey: HashOp.SHA256,
+        prehashValue: HashOp.SHA256,
+        length: LengthOp.NO_PREFIX,
+        prefix: this.options.leafPrefix,
+      },
+      path: steps,
+    };
+  }
+}
+
+function bitIsSet(hash: Uint8Array, depth: number): boolean {
+  return ((hash[depth >> 3] >> (7 - (depth & 7))) & 1) === 1;
+}
+
+function pathId(path: Uint8Array): string {
+  return Array.from(path, (b) => b.toString(16).padStart(2, "0")).join("");
+}
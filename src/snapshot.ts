@@ -0,0 +1,259 @@
+import { BlockHeader, LightBlock } from "./cometbft";
+import {
+  failed,
+  VerificationError,
+  VerificationErrorCode,
+  VerificationResult,
+  verified,
+} from "./errors";
+import { LightClientOptions } from "./lightclient";
+import { VerifyOptions } from "./proofs";
+import {
+  AnchoredWebcatResult,
+  fromHex,
+  toHex,
+  verifyAnchoredWebcatProof,
+  verifyPinnedWebcatProof,
+  WebcatLeaf,
+  WebcatLeavesFile,
+} from "./webcat";
+
+/*
+Clients fetch leaves files regularly, and anyone serving them could replay an
+older file that still verifies. WebcatSnapshotStore remembers the last file it
+accepted and only moves forward: a file is accepted if it verifies and is at a
+greater height, or is the accepted snapshot again.
+
+The block_height of a file is not covered by its proof, so the store only
+compares heights of blocks that commit to the app hash of the file. Every
+file comes with a WebcatAnchor proving that block.
+*/
+
+// WebcatAnchor proves which block commits to the app hash of a leaves file.
+// It is either a header and the block hash it must have, pinned from a source
+// the caller trusts, or light blocks verified from a trusted one. See
+// verifyPinnedWebcatProof and verifyAnchoredWebcatProof.
+export type WebcatAnchor =
+  | {
+      readonly header: BlockHeader;
+      readonly blockHash: Uint8Array;
+    }
+  | {
+      readonly trusted: LightBlock;
+      readonly blocks: readonly LightBlock[];
+      readonly lightClient: LightClientOptions;
+    };
+
+// WebcatSnapshot is an accepted leaves file. Hashes are lowercase hex.
+export interface WebcatSnapshot {
+  readonly blockHeight: number;
+  readonly appHash: string;
+  readonly canonicalRootHash: string;
+  readonly leaves: readonly WebcatLeaf[];
+}
+
+// WebcatSnapshotStorage persists the accepted snapshot, e.g. in memory, a
+// file or IndexedDB. load returns undefined if nothing was saved yet.
+export interface WebcatSnapshotStorage {
+  load(): Promise<WebcatSnapshot | undefined>;
+  save(snapshot: WebcatSnapshot): Promise<void>;
+}
+
+// KeyValueStorage is the minimal string store keyValueSnapshotStorage needs,
+// which files, IndexedDB wrappers and localStorage are easily adapted to
+export interface KeyValueStorage {
+  get(key: string): Promise<string | null | undefined>;
+  set(key: string, value: string): Promise<void>;
+}
+
+// MemorySnapshotStorage keeps the snapshot for the lifetime of the object
+export class MemorySnapshotStorage implements WebcatSnapshotStorage {
+  private snapshot: WebcatSnapshot | undefined;
+
+  async load(): Promise<WebcatSnapshot | undefined> {
+    return this.snapshot;
+  }
+
+  async save(snapshot: WebcatSnapshot): Promise<void> {
+    this.snapshot = snapshot;
+  }
+}
+
+// keyValueSnapshotStorage stores the snapshot as JSON under key. It throws
+// on load if the stored value is not a snapshot.
+export function keyValueSnapshotStorage(
+  storage: KeyValueStorage,
+  key = "webcat-snapshot",
+): WebcatSnapshotStorage {
+  return {
+    async load() {
+      const json = await storage.get(key);
+      return json === null || json === undefined
+        ? undefined
+        : parseSnapshot(json);
+    },
+    async save(snapshot) {
+      await storage.set(key, JSON.stringify(snapshot));
+    },
+  };
+}
+
+export class WebcatSnapshotStore {
+  private readonly storage: WebcatSnapshotStorage;
+  private readonly options: VerifyOptions;
+  // serializes accept, so concurrent calls can't both pass the height check
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    storage: WebcatSnapshotStorage = new MemorySnapshotStorage(),
+    options: VerifyOptions = {},
+  ) {
+    this.storage = storage;
+    this.options = options;
+  }
+
+  // current returns the accepted snapshot, or undefined if there is none
+  async current(): Promise<WebcatSnapshot | undefined> {
+    return this.storage.load();
+  }
+
+  // leaves returns the verified leaves of the accepted snapshot
+  async leaves(): Promise<readonly WebcatLeaf[] | undefined> {
+    return (await this.current())?.leaves;
+  }
+
+  // accept verifies data and the block anchor says commits to it, and makes
+  // it the current snapshot. It fails with ROLLBACK if the block is older
+  // than the one of the current snapshot, and with SNAPSHOT_CONFLICT if it
+  // is at the same height but data has another app hash or canonical root.
+  // Storage errors are thrown.
+  accept(
+    data: WebcatLeavesFile,
+    anchor: WebcatAnchor,
+  ): Promise<VerificationResult> {
+    if (!anchor) {
+      return Promise.reject(
+        new Error("Cannot accept a leaves file without an anchor"),
+      );
+    }
+    const result = this.queue.then(() => this.acceptNow(data, anchor));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async acceptNow(
+    data: WebcatLeavesFile,
+    anchor: WebcatAnchor,
+  ): Promise<VerificationResult> {
+    const anchored = await this.verifyAnchor(data, anchor);
+    if (!anchored.ok) {
+      return { ok: false, code: anchored.code, detail: anchored.detail };
+    }
+    const snapshot: WebcatSnapshot = {
+      blockHeight: Number(anchored.height),
+      appHash: toHex(fromHex(data.proof.app_hash)),
+      canonicalRootHash: toHex(fromHex(data.proof.canonical_root_hash)),
+      leaves: anchored.leaves,
+    };
+
+    const current = await this.storage.load();
+    if (current) {
+      try {
+        ensureNoRollback(current, snapshot);
+      } catch (err) {
+        return failed(err);
+      }
+      if (current.blockHeight === snapshot.blockHeight) {
+        return verified;
+      }
+    }
+    await this.storage.save(snapshot);
+    return verified;
+  }
+
+  private verifyAnchor(
+    data: WebcatLeavesFile,
+    anchor: WebcatAnchor,
+  ): Promise<AnchoredWebcatResult> {
+    if ("blockHash" in anchor) {
+      return verifyPinnedWebcatProof(
+        data,
+        anchor.header,
+        anchor.blockHash,
+        this.options,
+      );
+    }
+    return verifyAnchoredWebcatProof(data, anchor.trusted, anchor.blocks, {
+      ...anchor.lightClient,
+      ...this.options,
+    });
+  }
+}
+
+function ensureNoRollback(
+  current: WebcatSnapshot,
+  snapshot: WebcatSnapshot,
+): void {
+  if (snapshot.blockHeight < current.blockHeight) {
+    throw new VerificationError(
+      VerificationErrorCode.ROLLBACK,
+      `Snapshot at height ${snapshot.blockHeight} is older than the accepted height ${current.blockHeight}`,
+      { expected: current.blockHeight, actual: snapshot.blockHeight },
+    );
+  }
+  if (snapshot.blockHeight > current.blockHeight) {
+    return;
+  }
+  for (const field of ["appHash", "canonicalRootHash"] as const) {
+    if (snapshot[field] !== current[field]) {
+      throw new VerificationError(
+        VerificationErrorCode.SNAPSHOT_CONFLICT,
+        `Snapshot at height ${snapshot.blockHeight} has another ${field} than the accepted one`,
+        {
+          field,
+          expected: fromHex(current[field]),
+          actual: fromHex(snapshot[field]),
+        },
+      );
+    }
+  }
+}
+
+function parseSnapshot(json: string): WebcatSnapshot {
+  const fail = (): never => {
+    throw new Error("Stored webcat snapshot is malformed");
+  };
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return fail();
+  }
+  if (typeof value !== "object" || value === null) {
+    return fail();
+  }
+  const { blockHeight, appHash, canonicalRootHash, leaves } = value as Record<
+    string,
+    unknown
+  >;
+  if (
+    !Number.isSafeInteger(blockHeight) ||
+    typeof appHash !== "string" ||
+    typeof canonicalRootHash !== "string" ||
+    !Array.isArray(leaves) ||
+    !leaves.every(
+      (leaf) =>
+        Array.isArray(leaf) &&
+        leaf.length === 2 &&
+        leaf.every((part) => typeof part === "string"),
+    )
+  ) {
+    return fail();
+  }
+  return {
+    blockHeight: blockHeight as number,
+    appHash,
+    canonicalRootHash,
+    leaves: leaves as WebcatLeaf[],
+  };
+}
@@ -1,18 +1,23 @@
+import { VerificationError, VerificationErrorCode } from "./errors";
 import { InnerOp, InnerSpec, LeafOp } from "./proto/cosmos/ics23/v1/proofs";
 
 export function ensureLeaf(leaf: LeafOp, spec: LeafOp): void {
-  if (leaf.hash !== spec.hash) {
-    throw new Error(`Unexpected hashOp: ${leaf.hash}`);
-  }
-  if (leaf.prehashKey !== spec.prehashKey) {
-    throw new Error(`Unexpected prehashKey: ${leaf.prehashKey}`);
-  }
-  if (leaf.prehashValue !== spec.prehashValue) {
-    throw new Error(`Unexpected prehashValue: ${leaf.prehashValue}`);
-  }
-  if (leaf.length !== spec.length) {
-    throw new Error(`Unexpected length op: ${leaf.length}`);
-  }
+  const ensureField = (
+    field: "hash" | "prehashKey" | "prehashValue" | "length",
+    message: string,
+  ): void => {
+    if (leaf[field] !== spec[field]) {
+      throw new VerificationError(
+        VerificationErrorCode.LEAF_SPEC_MISMATCH,
+        `${message}: ${leaf[field]}`,
+        { field, expected: spec[field], actual: leaf[field] },
+      );
+    }
+  };
+  ensureField("hash", "Unexpected hashOp");
+  ensureField("prehashKey", "Unexpected prehashKey");
+  ensureField("prehashValue", "Unexpected prehashValue");
+  ensureField("length", "Unexpected length op");
   ensurePrefix(leaf.prefix, spec.prefix);
 }
 
@@ -22,20 +27,50 @@ export function ensureInner(
   spec: InnerSpec,
 ): void {
   if (inner.hash !== spec.hash) {
-    throw new Error(`Unexpected hashOp: ${inner.hash}`);
+    throw new VerificationError(
+      VerificationErrorCode.INNER_SPEC_MISMATCH,
+      `Unexpected hashOp: ${inner.hash}`,
+      { field: "hash", expected: spec.hash, actual: inner.hash },
+    );
   }
   if (!inner.prefix) {
-    throw new Error("No prefix set for inner node");
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      "No prefix set for inner node",
+      { field: "prefix" },
+    );
   }
   if (hasPrefix(inner.prefix, prefix)) {
-    throw new Error(`Inner node has leaf prefix`);
-  }
-  if (inner.prefix.length < (spec.minPrefixLength || 0)) {
-    throw new Error(`Prefix too short: ${inner.prefix.length} bytes`);
+    throw new VerificationError(
+      VerificationErrorCode.INNER_HAS_LEAF_PREFIX,
+      `Inner node has leaf prefix`,
+      { field: "prefix", actual: inner.prefix },
+    );
+  }
+  const minPrefixLength = spec.minPrefixLength || 0;
+  if (inner.prefix.length < minPrefixLength) {
+    throw new VerificationError(
+      VerificationErrorCode.INNER_PREFIX_TOO_SHORT,
+      `Prefix too short: ${inner.prefix.length} bytes`,
+      {
+        field: "prefix",
+        expected: minPrefixLength,
+        actual: inner.prefix.length,
+      },
+    );
   }
   const maxLeftChildBytes = (spec.childOrder!.length - 1) * spec.childSize!;
-  if (inner.prefix.length > (spec.maxPrefixLength || 0) + maxLeftChildBytes) {
-    throw new Error(`Prefix too long: ${inner.prefix.length} bytes`);
+  const maxPrefixLength = (spec.maxPrefixLength || 0) + maxLeftChildBytes;
+  if (inner.prefix.length > maxPrefixLength) {
+    throw new VerificationError(
+      VerificationErrorCode.INNER_PREFIX_TOO_LONG,
+      `Prefix too long: ${inner.prefix.length} bytes`,
+      {
+        field: "prefix",
+        expected: maxPrefixLength,
+        actual: inner.prefix.length,
+      },
+    );
   }
 }
 
@@ -48,19 +83,40 @@ function ensurePrefix(
     return;
   }
   if (!check) {
-    throw new Error(`Target bytes missing`);
-  }
-  ensureBytesEqual(prefix, check.slice(0, prefix.length));
+    throw new VerificationError(
+      VerificationErrorCode.LEAF_SPEC_MISMATCH,
+      `Target bytes missing`,
+      { field: "prefix", expected: prefix },
+    );
+  }
+  ensureBytesEqual(
+    prefix,
+    check.slice(0, prefix.length),
+    VerificationErrorCode.LEAF_SPEC_MISMATCH,
+  );
 }
 
-// ensureBytesEqual throws an error if the arrays are different
-export function ensureBytesEqual(a: Uint8Array, b: Uint8Array): void {
+// ensureBytesEqual throws a VerificationError with the given code if the
+// arrays are different. a is expected to be the reference value.
+export function ensureBytesEqual(
+  a: Uint8Array,
+  b: Uint8Array,
+  code = VerificationErrorCode.UNEXPECTED_ERROR,
+): void {
   if (a.length !== b.length) {
-    throw new Error(`Different lengths ${a.length} vs ${b.length}`);
+    throw new VerificationError(
+      code,
+      `Different lengths ${a.length} vs ${b.length}`,
+      { expected: a, actual: b },
+    );
   }
   for (let i = 0; i < a.length; i++) {
     if (a[i] !== b[i]) {
-      throw new Error(`Arrays differ at index ${i}: ${a[i]} vs ${b[i]}`);
+      throw new VerificationError(
+        code,
+        `Arrays differ at index ${i}: ${a[i]} vs ${b[i]}`,
+        { expected: a, actual: b, index: i },
+      );
     }
   }
 }
@@ -96,14 +152,18 @@ function hasPrefix(
       return false;
     }
   }
-  throw true;
+  return true;
 }
 
 // ensureBytesBefore throws an error if first >= last
 // we compare byte by byte
-export function ensureBytesBefore(first: Uint8Array, last: Uint8Array): void {
+export function ensureBytesBefore(
+  first: Uint8Array,
+  last: Uint8Array,
+  code = VerificationErrorCode.UNEXPECTED_ERROR,
+): void {
   if (!bytesBefore(first, last)) {
-    throw new Error("first is after last");
+    throw new VerificationError(code, "first is after last");
   }
 }
 
@@ -121,3 +181,12 @@ export function bytesBefore(first: Uint8Array, last: Uint8Array): boolean {
   // if they match, ensure that last is longer than first..
   return first.length < last.length;
 }
+
+// compareBytes orders byte arrays the same way as bytesBefore,
+// returning a negative number, zero or a positive number
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  if (bytesBefore(a, b)) {
+    return -1;
+  }
+  return bytesEqual(a, b) ? 0 : 1;
+}
@@ -0,0 +1,86 @@
+import { bench, describe } from "vitest";
+
+import { createBatch } from "./../batch";
+import {
+  batchVerifyMembershipSync,
+  batchVerifyNonMembershipSync,
+  verifyMembershipSync,
+  verifyNonMembershipSync,
+} from "./../ics23";
+import { smtSpec, tendermintSpec } from "./../proofs";
+import { SimpleMerkleTree } from "./../simple";
+import { SparseMerkleTree } from "./../smt";
+import { toAscii } from "./testhelpers";
+
+// Run with npm run bench. Verifying key by key is what batch verification
+// did before it indexed the batch and shared hashes between entries.
+
+const keyFor = (i: number): Uint8Array => toAscii(`key ${i}`);
+const valueFor = (i: number): Uint8Array => toAscii(`value ${i}`);
+const missingFor = (i: number): Uint8Array => toAscii(`key ${i}a`);
+
+const size = 2000;
+// verifying key by key takes seconds, a few runs are enough to compare
+const options = { time: 0, iterations: 3, warmupTime: 0, warmupIterations: 1 };
+const proven = Array.from({ length: size / 2 }, (_, i) => i * 2);
+
+describe("membership of 1000 keys in a simple Merkle tree", () => {
+  const tree = new SimpleMerkleTree(
+    Array.from({ length: size }, (_, i) => [keyFor(i), valueFor(i)] as const),
+  );
+  const root = tree.rootHash();
+  const proof = createBatch(
+    proven.map((i) => tree.getMembershipProof(keyFor(i))),
+    { compress: true },
+  );
+  const items = new Map(proven.map((i) => [keyFor(i), valueFor(i)]));
+
+  bench(
+    "batchVerifyMembership",
+    () => {
+      batchVerifyMembershipSync(proof, tendermintSpec, root, items);
+    },
+    options,
+  );
+
+  bench(
+    "key by key",
+    () => {
+      for (const [key, value] of items) {
+        verifyMembershipSync(proof, tendermintSpec, root, key, value);
+      }
+    },
+    options,
+  );
+});
+
+describe("non-membership of 1000 keys in a sparse Merkle tree", () => {
+  const tree = new SparseMerkleTree();
+  for (let i = 0; i < size; i++) {
+    tree.set(keyFor(i), valueFor(i));
+  }
+  const root = tree.rootHash();
+  const proof = createBatch(
+    proven.map((i) => tree.getNonMembershipProof(missingFor(i))),
+    { compress: true },
+  );
+  const keys = proven.map(missingFor);
+
+  bench(
+    "batchVerifyNonMembership",
+    () => {
+      batchVerifyNonMembershipSync(proof, smtSpec, root, keys);
+    },
+    options,
+  );
+
+  bench(
+    "key by key",
+    () => {
+      for (const key of keys) {
+        verifyNonMembershipSync(proof, smtSpec, root, key);
+      }
+    },
+    options,
+  );
+});
@@ -0,0 +1,363 @@
+import { createBatch, mergeBatches, pruneBatch } from "./../batch";
+import { compress, decompress } from "./../compress";
+import { VerificationErrorCode } from "./../errors";
+import { Hasher, pureHasher } from "./../hasher";
+import {
+  batchVerifyMembership,
+  batchVerifyMembershipSync,
+  batchVerifyNonMembership,
+  batchVerifyNonMembershipSync,
+  verifyBatch,
+  verifyBatchSync,
+  verifyMembershipSync,
+  verifyNonMembershipSync,
+} from "./../ics23";
+import { smtSpec, tendermintSpec } from "./../proofs";
+import { CommitmentProof, HashOp } from "./../proto/cosmos/ics23/v1/proofs";
+import { SimpleMerkleTree } from "./../simple";
+import { SparseMerkleTree } from "./../smt";
+import { toAscii } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+const keyFor = (i: number): Uint8Array => toAscii(`key ${i}`);
+const valueFor = (i: number): Uint8Array => toAscii(`value ${i}`);
+// keys between the ones in the tree
+const missingFor = (i: number): Uint8Array => toAscii(`key ${i}a`);
+
+const tree = new SimpleMerkleTree(
+  Array.from({ length: 10 }, (_, i) => [keyFor(i), valueFor(i)] as const),
+);
+const root = tree.rootHash();
+
+const exist = (i: number) => tree.getMembershipProof(keyFor(i));
+const nonexist = (i: number) => tree.getNonMembershipProof(missingFor(i));
+
+const batchKeys = (proof: CommitmentProof): Uint8Array[] =>
+  decompress(proof).batch!.entries.map(
+    ({ exist, nonexist }) => (exist?.key ?? nonexist?.key)!,
+  );
+
+async function verifies(
+  proof: CommitmentProof,
+  present: readonly number[],
+  absent: readonly number[],
+): Promise<boolean> {
+  const items = new Map(present.map((i) => [keyFor(i), valueFor(i)]));
+  return (
+    (await batchVerifyMembership(proof, tendermintSpec, root, items)) &&
+    (await batchVerifyNonMembership(
+      proof,
+      tendermintSpec,
+      root,
+      absent.map(missingFor),
+    ))
+  );
+}
+
+describe("createBatch", () => {
+  it("combines existence and non-existence proofs", async () => {
+    const proof = createBatch([exist(3), nonexist(5), exist(1)]);
+    expect(batchKeys(proof)).toEqual([keyFor(1), keyFor(3), missingFor(5)]);
+    expect(await verifies(proof, [1, 3], [5])).toBe(true);
+    expect(await verifies(proof, [2], [])).toBe(false);
+  });
+
+  it("returns the compressed form on request", async () => {
+    const proofs = [exist(3), nonexist(5), exist(1), exist(2)];
+    const compressed = createBatch(proofs, { compress: true });
+    expect(compressed.compressed).toBeDefined();
+    expect(compressed).toEqual(compress(createBatch(proofs)));
+    expect(await verifies(compressed, [1, 2, 3], [5])).toBe(true);
+  });
+
+  it("does not depend on the order of proofs", () => {
+    const proofs = [exist(3), nonexist(5), exist(1), exist(2)];
+    const encode = (proof: CommitmentProof) =>
+      CommitmentProof.encode(proof).finish();
+    expect(
+      encode(createBatch([...proofs].reverse(), { compress: true })),
+    ).toEqual(encode(createBatch(proofs, { compress: true })));
+  });
+
+  it("rejects conflicting and empty input", () => {
+    const other = new SimpleMerkleTree([[keyFor(1), toAscii("other")]]);
+    expect(() =>
+      createBatch([exist(1), other.getMembershipProof(keyFor(1))]),
+    ).toThrow("Conflicting proofs for key");
+    expect(() => createBatch([])).toThrow("without proofs");
+    expect(() => createBatch([{}])).toThrow("no existence");
+  });
+});
+
+describe("mergeBatches", () => {
+  it("merges batches and keeps shared keys once", async () => {
+    const a = createBatch([exist(1), exist(2), nonexist(5)]);
+    const b = createBatch([exist(2), exist(7)], { compress: true });
+    const merged = mergeBatches(a, b);
+    expect(batchKeys(merged)).toEqual([
+      keyFor(1),
+      keyFor(2),
+      missingFor(5),
+      keyFor(7),
+    ]);
+    expect(await verifies(merged, [1, 2, 7], [5])).toBe(true);
+    expect(mergeBatches(b, a, { compress: true })).toEqual(compress(merged));
+  });
+});
+
+describe("pruneBatch", () => {
+  it("keeps only the entries of the given keys", async () => {
+    const full = createBatch([exist(1), exist(2), exist(3), nonexist(5)], {
+      compress: true,
+    });
+    const pruned = pruneBatch(full, tendermintSpec, [
+      keyFor(3),
+      missingFor(5),
+      keyFor(3),
+    ]);
+    expect(batchKeys(pruned)).toEqual([keyFor(3), missingFor(5)]);
+    expect(await verifies(pruned, [3], [5])).toBe(true);
+    expect(await verifies(pruned, [1], [])).toBe(false);
+
+    const compressed = pruneBatch(full, tendermintSpec, [keyFor(1)], {
+      compress: true,
+    });
+    expect(compressed.compressed!.lookupInners.length).toBeLessThan(
+      full.compressed!.lookupInners.length,
+    );
+    expect(await verifies(compressed, [1], [])).toBe(true);
+  });
+
+  it("keeps the gap of absent keys the batch proves", async () => {
+    const keys = [1, 2, 3, 5, 6].map(keyFor);
+    const simple = new SimpleMerkleTree(
+      keys.map((key, i) => [key, valueFor(i)] as const),
+    );
+    const smt = new SparseMerkleTree();
+    keys.forEach((key, i) => smt.set(key, valueFor(i)));
+    // keys next to the ones in the tree, whose order specs that hash keys
+    // before comparing them shuffle
+    const candidates = [..."bcdefghijklmnopqrstuvwxyz"].flatMap((c) => [
+      toAscii(`key 5${c}`),
+      toAscii(`key 4${c}`),
+    ]);
+
+    for (const [store, spec] of [
+      [simple, tendermintSpec],
+      [smt, smtSpec],
+    ] as const) {
+      const root = store.rootHash();
+      const full = createBatch([
+        store.getMembershipProof(keyFor(1)),
+        store.getNonMembershipProof(missingFor(5)),
+      ]);
+      const covered = (key: Uint8Array) =>
+        batchVerifyNonMembershipSync(full, spec, root, [key]);
+      const inside = candidates.find(covered)!;
+      const outside = candidates.find((key) => !covered(key))!;
+
+      const pruned = pruneBatch(full, spec, [inside, missingFor(5)]);
+      expect(batchKeys(pruned)).toEqual([missingFor(5)]);
+      expect(await batchVerifyNonMembership(pruned, spec, root, [inside])).toBe(
+        true,
+      );
+      expect(() => pruneBatch(full, spec, [outside])).toThrow(
+        "Batch has no proof for key",
+      );
+    }
+    // the key of the example above
+    expect(
+      batchKeys(
+        pruneBatch(createBatch([nonexist(5)]), tendermintSpec, [
+          toAscii("key 5b"),
+        ]),
+      ),
+    ).toEqual([missingFor(5)]);
+  });
+
+  it("throws for keys the batch doesn't prove", () => {
+    const full = createBatch([exist(1)]);
+    expect(() => pruneBatch(full, tendermintSpec, [keyFor(2)])).toThrow(
+      "Batch has no proof for key",
+    );
+  });
+});
+
+describe("verifyBatch", () => {
+  const proof = createBatch([exist(1), exist(2), nonexist(5)], {
+    compress: true,
+  });
+
+  it("answers every query", async () => {
+    const queries = [
+      { type: "exists", key: keyFor(1), value: valueFor(1) },
+      { type: "absent", key: missingFor(5) },
+      { type: "lookup", key: keyFor(2) },
+      { type: "lookup", key: missingFor(5) },
+    ] as const;
+    const { ok, results } = await verifyBatch(
+      proof,
+      tendermintSpec,
+      root,
+      queries,
+    );
+    expect(ok).toBe(true);
+    expect(results).toEqual([
+      { ok: true, status: "present", value: valueFor(1) },
+      { ok: true, status: "absent" },
+      { ok: true, status: "present", value: valueFor(2) },
+      { ok: true, status: "absent" },
+    ]);
+    expect(verifyBatchSync(proof, tendermintSpec, root, queries)).toEqual({
+      ok,
+      results,
+    });
+  });
+
+  it("reports why each query failed", async () => {
+    const queries = [
+      { type: "exists", key: keyFor(1), value: valueFor(2) },
+      { type: "exists", key: missingFor(5), value: valueFor(5) },
+      { type: "absent", key: keyFor(2) },
+      { type: "lookup", key: keyFor(8) },
+      { type: "lookup", key: keyFor(1) },
+    ] as const;
+    const { ok, results } = await verifyBatch(
+      proof,
+      tendermintSpec,
+      root,
+      queries,
+    );
+    expect(ok).toBe(false);
+    expect(results).toMatchObject([
+      {
+        ok: false,
+        code: VerificationErrorCode.VALUE_MISMATCH,
+        status: "present",
+        value: valueFor(1),
+      },
+      {
+        ok: false,
+        code: VerificationErrorCode.PROOF_NOT_FOUND,
+        status: "absent",
+      },
+      {
+        ok: false,
+        code: VerificationErrorCode.PROOF_NOT_FOUND,
+        status: "present",
+        value: valueFor(2),
+      },
+      {
+        ok: false,
+        code: VerificationErrorCode.PROOF_NOT_FOUND,
+        status: "uncovered",
+      },
+      { ok: true, status: "present" },
+    ]);
+  });
+
+  it("answers repeated keys once per query", () => {
+    const { ok, results } = verifyBatchSync(proof, tendermintSpec, root, [
+      { type: "exists", key: keyFor(1), value: valueFor(1) },
+      // a copy of the same key
+      { type: "absent", key: keyFor(1).slice() },
+    ]);
+    expect(ok).toBe(false);
+    expect(results).toMatchObject([
+      { ok: true, status: "present" },
+      { ok: false, code: VerificationErrorCode.PROOF_NOT_FOUND },
+    ]);
+  });
+
+  it("treats entries that don't verify as uncovered", async () => {
+    const other = tree.rootHash().map((b) => b ^ 1);
+    const key = keyFor(1);
+    const { results } = await verifyBatch(proof, tendermintSpec, other, [
+      { type: "lookup", key },
+    ]);
+    expect(results).toMatchObject([
+      {
+        ok: false,
+        code: VerificationErrorCode.ROOT_MISMATCH,
+        status: "uncovered",
+      },
+    ]);
+
+    const limited = await verifyBatch(
+      proof,
+      tendermintSpec,
+      root,
+      [{ type: "lookup", key }],
+      { limits: { maxBatchEntries: 1 } },
+    );
+    expect(limited.results).toMatchObject([
+      {
+        ok: false,
+        code: VerificationErrorCode.TOO_MANY_ENTRIES,
+        status: "uncovered",
+      },
+    ]);
+  });
+});
+
+describe("large batches", () => {
+  // a sparse Merkle tree, whose spec hashes keys before comparing them
+  const smt = new SparseMerkleTree();
+  for (let i = 0; i < 200; i++) {
+    smt.set(keyFor(i), valueFor(i));
+  }
+  const smtRoot = smt.rootHash();
+  const proven = Array.from({ length: 60 }, (_, i) => i * 3);
+  const proof = createBatch(
+    proven.flatMap((i) => [
+      smt.getMembershipProof(keyFor(i)),
+      smt.getNonMembershipProof(missingFor(i)),
+    ]),
+    { compress: true },
+  );
+
+  it("agrees with verifying key by key", () => {
+    const keys = Array.from({ length: 200 }, (_, i) => [
+      keyFor(i),
+      missingFor(i),
+    ]).flat();
+    const { results } = verifyBatchSync(
+      proof,
+      smtSpec,
+      smtRoot,
+      keys.map((key) => ({ type: "lookup", key })),
+    );
+    keys.forEach((key, i) => {
+      const { status, value } = results[i];
+      const present = value
+        ? verifyMembershipSync(proof, smtSpec, smtRoot, key, value)
+        : false;
+      const absent = verifyNonMembershipSync(proof, smtSpec, smtRoot, key);
+      expect(status).toEqual(
+        present ? "present" : absent ? "absent" : "uncovered",
+      );
+    });
+  });
+
+  it("hashes shared nodes once", () => {
+    let calls = 0;
+    const hasher: Hasher = {
+      [HashOp.SHA256]: (preimage) => {
+        calls++;
+        return pureHasher[HashOp.SHA256]!(preimage);
+      },
+    };
+    const items = new Map(proven.map((i) => [keyFor(i), valueFor(i)]));
+    expect(
+      batchVerifyMembershipSync(proof, smtSpec, smtRoot, items, { hasher }),
+    ).toBe(true);
+    const batched = calls;
+
+    calls = 0;
+    for (const [key, value] of items) {
+      verifyMembershipSync(proof, smtSpec, smtRoot, key, value, { hasher });
+    }
+    expect(batched).toBeLessThan(calls);
+  });
+});
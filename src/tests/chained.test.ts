@@ -0,0 +1,180 @@
+import {
+  verifyChainedMembership,
+  verifyChainedMembershipDetailed,
+  verifyChainedMembershipSync,
+  verifyChainedNonMembership,
+  verifyChainedNonMembershipDetailedSync,
+  verifyChainedNonMembershipSync,
+} from "./../chained";
+import { VerificationErrorCode } from "./../errors";
+import { IavlTree } from "./../iavl";
+import { iavlSpec, tendermintSpec } from "./../proofs";
+import { SimpleMerkleTree } from "./../simple";
+import { toAscii } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+// a multistore with an "ibc" and a "bank" IAVL store, committed to by a
+// simple Merkle tree over the store roots
+const ibcStore = new IavlTree();
+for (let i = 0; i < 10; i++) {
+  ibcStore.set(toAscii(`key ${i}`), toAscii(`value ${i}`));
+}
+ibcStore.saveVersion();
+const bankStore = new IavlTree();
+bankStore.set(toAscii("balance"), toAscii("100"));
+bankStore.saveVersion();
+const multistore = new SimpleMerkleTree([
+  [toAscii("bank"), bankStore.rootHash()],
+  [toAscii("ibc"), ibcStore.rootHash()],
+]);
+const appHash = multistore.rootHash();
+const specs = [iavlSpec, tendermintSpec];
+
+const key = toAscii("key 4");
+const value = toAscii("value 4");
+const keyPath = [toAscii("ibc"), key];
+const membershipProofs = [
+  ibcStore.getMembershipProof(key),
+  multistore.getMembershipProof(toAscii("ibc")),
+];
+
+const missing = toAscii("key 45");
+const nonMembershipProofs = [
+  ibcStore.getNonMembershipProof(missing),
+  multistore.getMembershipProof(toAscii("ibc")),
+];
+
+describe("verifyChainedMembership", () => {
+  it("verifies a key through the multistore", async () => {
+    expect(
+      await verifyChainedMembership(
+        membershipProofs,
+        specs,
+        appHash,
+        keyPath,
+        value,
+      ),
+    ).toBe(true);
+    expect(
+      verifyChainedMembershipSync(
+        membershipProofs,
+        specs,
+        appHash,
+        keyPath,
+        value,
+      ),
+    ).toBe(true);
+  });
+
+  it("reports the hop that failed", async () => {
+    const wrongValue = await verifyChainedMembershipDetailed(
+      membershipProofs,
+      specs,
+      appHash,
+      keyPath,
+      toAscii("value 5"),
+    );
+    expect(wrongValue).toMatchObject({
+      ok: false,
+      hop: 0,
+      code: VerificationErrorCode.VALUE_MISMATCH,
+    });
+
+    const wrongStore = await verifyChainedMembershipDetailed(
+      membershipProofs,
+      specs,
+      appHash,
+      [toAscii("bank"), key],
+      value,
+    );
+    expect(wrongStore).toMatchObject({
+      ok: false,
+      hop: 1,
+      code: VerificationErrorCode.PROOF_NOT_FOUND,
+    });
+
+    const wrongRoot = await verifyChainedMembershipDetailed(
+      membershipProofs,
+      specs,
+      bankStore.rootHash(),
+      keyPath,
+      value,
+    );
+    expect(wrongRoot).toMatchObject({
+      ok: false,
+      hop: 1,
+      code: VerificationErrorCode.ROOT_MISMATCH,
+    });
+  });
+
+  it("rejects a substore proof from another store", async () => {
+    const proofs = [
+      bankStore.getMembershipProof(toAscii("balance")),
+      membershipProofs[1],
+    ];
+    const result = await verifyChainedMembershipDetailed(
+      proofs,
+      specs,
+      appHash,
+      [toAscii("ibc"), toAscii("balance")],
+      toAscii("100"),
+    );
+    expect(result).toMatchObject({
+      ok: false,
+      hop: 1,
+      code: VerificationErrorCode.VALUE_MISMATCH,
+    });
+  });
+
+  it("rejects mismatched arguments", async () => {
+    const tooFewSpecs = await verifyChainedMembershipDetailed(
+      membershipProofs,
+      [iavlSpec],
+      appHash,
+      keyPath,
+      value,
+    );
+    expect(tooFewSpecs).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.MALFORMED_PROOF,
+      detail: { expected: 2, actual: 1 },
+    });
+    expect(tooFewSpecs.hop).toBeUndefined();
+
+    expect(await verifyChainedMembership([], [], appHash, [], value)).toBe(
+      false,
+    );
+  });
+});
+
+describe("verifyChainedNonMembership", () => {
+  it("verifies a missing key through the multistore", async () => {
+    expect(
+      await verifyChainedNonMembership(nonMembershipProofs, specs, appHash, [
+        toAscii("ibc"),
+        missing,
+      ]),
+    ).toBe(true);
+    expect(
+      verifyChainedNonMembershipSync(nonMembershipProofs, specs, appHash, [
+        toAscii("ibc"),
+        missing,
+      ]),
+    ).toBe(true);
+  });
+
+  it("rejects a key that exists", () => {
+    const result = verifyChainedNonMembershipDetailedSync(
+      nonMembershipProofs,
+      specs,
+      appHash,
+      keyPath,
+    );
+    expect(result).toMatchObject({
+      ok: false,
+      hop: 0,
+      code: VerificationErrorCode.PROOF_NOT_FOUND,
+    });
+  });
+});
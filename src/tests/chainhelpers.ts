@@ -0,0 +1,127 @@
+import {
+  BlockIdFlag,
+  Commit,
+  headerHash,
+  LightBlock,
+  parseTimestamp,
+  Validator,
+  validatorAddress,
+  validatorSetHash,
+  voteSignBytes,
+} from "./../cometbft";
+
+export interface TestValidator {
+  readonly validator: Validator;
+  readonly privateKey: CryptoKey;
+}
+
+export async function makeValidators(
+  powers: readonly number[],
+): Promise<TestValidator[]> {
+  const subtle = globalThis.crypto.subtle;
+  return Promise.all(
+    powers.map(async (power) => {
+      const keys = (await subtle.generateKey({ name: "Ed25519" }, true, [
+        "sign",
+        "verify",
+      ])) as CryptoKeyPair;
+      const pubKey = new Uint8Array(
+        await subtle.exportKey("raw", keys.publicKey),
+      );
+      return {
+        validator: {
+          address: validatorAddress(pubKey),
+          pubKey,
+          votingPower: BigInt(power),
+        },
+        privateKey: keys.privateKey,
+      };
+    }),
+  );
+}
+
+export interface TestBlock {
+  readonly height: number;
+  // seconds after 2024-01-01T00:00:00Z
+  readonly time?: number;
+  readonly validators: readonly TestValidator[];
+  readonly nextValidators?: readonly TestValidator[];
+  readonly appHash?: Uint8Array;
+  readonly chainId?: string;
+  // indexes of the validators that sign, all by default
+  readonly signers?: readonly number[];
+}
+
+export const chainStart = parseTimestamp("2024-01-01T00:00:00Z");
+
+// makeLightBlock builds a header and a commit signed by the signers
+export async function makeLightBlock(block: TestBlock): Promise<LightBlock> {
+  const validators = block.validators.map(({ validator }) => validator);
+  const nextValidators = (block.nextValidators ?? block.validators).map(
+    ({ validator }) => validator,
+  );
+  const time = {
+    seconds: chainStart.seconds + BigInt(block.time ?? block.height * 5),
+    nanos: 0,
+  };
+  const header = {
+    version: { block: 11n, app: 0n },
+    chainId: block.chainId ?? "test-chain",
+    height: BigInt(block.height),
+    time,
+    lastBlockId: {
+      hash: new Uint8Array(32).fill(1),
+      partSetHeader: { total: 1, hash: new Uint8Array(32).fill(2) },
+    },
+    lastCommitHash: new Uint8Array(32).fill(3),
+    dataHash: new Uint8Array(32).fill(4),
+    validatorsHash: validatorSetHash(validators),
+    nextValidatorsHash: validatorSetHash(nextValidators),
+    consensusHash: new Uint8Array(32).fill(5),
+    appHash: block.appHash ?? new Uint8Array(32).fill(6),
+    lastResultsHash: new Uint8Array(32).fill(7),
+    evidenceHash: new Uint8Array(32).fill(8),
+    proposerAddress: validators[0].address,
+  };
+
+  const signers = block.signers ?? validators.map((_, i) => i);
+  const unsigned: Commit = {
+    height: header.height,
+    round: 0,
+    blockId: {
+      hash: headerHash(header),
+      partSetHeader: { total: 1, hash: new Uint8Array(32).fill(9) },
+    },
+    signatures: validators.map((validator, i) => ({
+      blockIdFlag: signers.includes(i)
+        ? BlockIdFlag.COMMIT
+        : BlockIdFlag.ABSENT,
+      validatorAddress: signers.includes(i)
+        ? validator.address
+        : new Uint8Array(),
+      timestamp: { seconds: time.seconds + 1n, nanos: 500 },
+      signature: new Uint8Array(),
+    })),
+  };
+  const signatures = await Promise.all(
+    unsigned.signatures.map(async (sig, i) =>
+      sig.blockIdFlag === BlockIdFlag.COMMIT
+        ? {
+            ...sig,
+            signature: new Uint8Array(
+              await globalThis.crypto.subtle.sign(
+                { name: "Ed25519" },
+                block.validators[i].privateKey,
+                new Uint8Array(voteSignBytes(header.chainId, unsigned, i)),
+              ),
+            ),
+          }
+        : sig,
+    ),
+  );
+  return {
+    signedHeader: { header, commit: { ...unsigned, signatures } },
+    validators,
+    ...(block.nextValidators ? { nextValidators } : {}),
+  };
+}
@@ -0,0 +1,286 @@
+import {
+  BlockHeader,
+  BlockIdFlag,
+  headerFromJson,
+  headerHash,
+  LightBlock,
+  lightBlockFromJson,
+  parseTimestamp,
+  Timestamp,
+  verifyHeaderAppHash,
+  voteSignBytes,
+} from "./../cometbft";
+import { VerificationErrorCode } from "./../errors";
+import { sha256 } from "./../hashes";
+import { makeLightBlock, makeValidators } from "./chainhelpers";
+import { fromHex, toAscii, toHex } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+const emptyBlockId = {
+  hash: new Uint8Array(),
+  partSetHeader: { total: 0, hash: new Uint8Array() },
+};
+
+// the header of TestHeaderHash in CometBFT types/block_test.go
+const vectorHeader: BlockHeader = {
+  version: { block: 1n, app: 2n },
+  chainId: "chainId",
+  height: 3n,
+  time: parseTimestamp("2019-10-13T16:14:44Z"),
+  lastBlockId: {
+    hash: new Uint8Array(32),
+    partSetHeader: { total: 6, hash: new Uint8Array(32) },
+  },
+  lastCommitHash: sha256(toAscii("last_commit_hash")),
+  dataHash: sha256(toAscii("data_hash")),
+  validatorsHash: sha256(toAscii("validators_hash")),
+  nextValidatorsHash: sha256(toAscii("next_validators_hash")),
+  consensusHash: sha256(toAscii("consensus_hash")),
+  appHash: sha256(toAscii("app_hash")),
+  lastResultsHash: sha256(toAscii("last_results_hash")),
+  evidenceHash: sha256(toAscii("evidence_hash")),
+  proposerAddress: sha256(toAscii("proposer_address")).slice(0, 20),
+};
+const vectorHash = fromHex(
+  "f740121f553b5418c3efbd343c2dbfe9e007bb67b0d020a0741374bab65242a4",
+);
+
+describe("headerHash", () => {
+  it("matches CometBFT", () => {
+    expect(headerHash(vectorHeader)).toEqual(vectorHash);
+  });
+});
+
+describe("verifyHeaderAppHash", () => {
+  it("verifies the app hash of a header with the block hash", () => {
+    expect(
+      verifyHeaderAppHash(vectorHeader, vectorHash, vectorHeader.appHash),
+    ).toEqual({ ok: true });
+  });
+
+  it("rejects headers that don't hash to the block hash", () => {
+    const header = { ...vectorHeader, height: 4n };
+    const result = verifyHeaderAppHash(header, vectorHash, header.appHash);
+    expect(result).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.HEADER_MISMATCH,
+      detail: { expected: vectorHash, actual: headerHash(header) },
+    });
+  });
+
+  it("rejects other app hashes", () => {
+    const result = verifyHeaderAppHash(
+      vectorHeader,
+      vectorHash,
+      sha256(toAscii("other_app_hash")),
+    );
+    expect(result).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.APP_HASH_MISMATCH,
+      detail: { field: "app_hash", actual: vectorHeader.appHash },
+    });
+  });
+
+  it("verifies headers decoded from JSON", () => {
+    const hash = (name: string) => toHex(sha256(toAscii(name))).toUpperCase();
+    const header = headerFromJson({
+      version: { block: "1", app: "2" },
+      chain_id: "chainId",
+      height: "3",
+      time: "2019-10-13T16:14:44Z",
+      last_block_id: {
+        hash: toHex(new Uint8Array(32)),
+        parts: { total: 6, hash: toHex(new Uint8Array(32)) },
+      },
+      last_commit_hash: hash("last_commit_hash"),
+      data_hash: hash("data_hash"),
+      validators_hash: hash("validators_hash"),
+      next_validators_hash: hash("next_validators_hash"),
+      consensus_hash: hash("consensus_hash"),
+      app_hash: hash("app_hash"),
+      last_results_hash: hash("last_results_hash"),
+      evidence_hash: hash("evidence_hash"),
+      proposer_address: hash("proposer_address").slice(0, 40),
+    });
+    expect(header).toEqual(vectorHeader);
+    expect(
+      verifyHeaderAppHash(header, vectorHash, sha256(toAscii("app_hash"))).ok,
+    ).toBe(true);
+  });
+});
+
+describe("voteSignBytes", () => {
+  const nilVote = (chainId: string, timestamp: Timestamp) =>
+    voteSignBytes(
+      chainId,
+      {
+        height: 1n,
+        round: 1,
+        blockId: emptyBlockId,
+        signatures: [
+          {
+            blockIdFlag: BlockIdFlag.NIL,
+            validatorAddress: new Uint8Array(),
+            timestamp,
+            signature: new Uint8Array(),
+          },
+        ],
+      },
+      0,
+    );
+
+  // TestVoteSignBytesTestVectors in CometBFT types/vote_test.go
+  it("matches CometBFT", () => {
+    const zeroTime = parseTimestamp("0001-01-01T00:00:00Z");
+    expect(toHex(nilVote("", zeroTime))).toEqual(
+      "2108021101000000000000001901000000000000002a0b088092b8c398feffffff01",
+    );
+    expect(toHex(nilVote("test_chain_id", zeroTime))).toEqual(
+      "3008021101000000000000001901000000000000002a0b088092b8c398feffffff01" +
+        "320d746573745f636861696e5f6964",
+    );
+  });
+});
+
+describe("parseTimestamp", () => {
+  it("keeps nanoseconds and applies offsets", () => {
+    expect(parseTimestamp("2024-01-01T00:00:00.123456789Z")).toEqual({
+      seconds: 1704067200n,
+      nanos: 123456789,
+    });
+    expect(parseTimestamp("2024-01-01T02:00:00.5+02:00")).toEqual({
+      seconds: 1704067200n,
+      nanos: 500000000,
+    });
+    expect(parseTimestamp("1970-01-01T00:00:00Z").seconds).toEqual(0n);
+    expect(() => parseTimestamp("2024-13-01T00:00:00Z")).toThrow();
+    expect(() => parseTimestamp("yesterday")).toThrow();
+  });
+});
+
+describe("lightBlockFromJson", () => {
+  const hex = (data: Uint8Array) => toHex(data).toUpperCase();
+  const base64 = (data: Uint8Array) => btoa(String.fromCharCode(...data));
+  const time = ({ seconds, nanos }: Timestamp) =>
+    new Date(Number(seconds) * 1000).toISOString().slice(0, 19) +
+    `.${String(nanos).padStart(9, "0")}Z`;
+  const blockId = ({
+    hash,
+    partSetHeader,
+  }: LightBlock["signedHeader"]["commit"]["blockId"]) => ({
+    hash: hex(hash),
+    parts: { total: partSetHeader.total, hash: hex(partSetHeader.hash) },
+  });
+
+  // toJson encodes block like the CometBFT RPC does
+  const toJson = ({
+    signedHeader: { header, commit },
+    validators,
+  }: LightBlock) => ({
+    signed_header: {
+      header: {
+        version: { block: String(header.version.block), app: "0" },
+        chain_id: header.chainId,
+        height: String(header.height),
+        time: time(header.time),
+        last_block_id: blockId(header.lastBlockId),
+        last_commit_hash: hex(header.lastCommitHash),
+        data_hash: hex(header.dataHash),
+        validators_hash: hex(header.validatorsHash),
+        next_validators_hash: hex(header.nextValidatorsHash),
+        consensus_hash: hex(header.consensusHash),
+        app_hash: hex(header.appHash),
+        last_results_hash: hex(header.lastResultsHash),
+        evidence_hash: hex(header.evidenceHash),
+        proposer_address: hex(header.proposerAddress),
+      },
+      commit: {
+        height: String(commit.height),
+        round: commit.round,
+        block_id: blockId(commit.blockId),
+        signatures: commit.signatures.map((sig) => ({
+          block_id_flag: sig.blockIdFlag,
+          validator_address: hex(sig.validatorAddress),
+          timestamp: time(sig.timestamp),
+          signature: sig.signature.length ? base64(sig.signature) : null,
+        })),
+      },
+    },
+    validator_set: {
+      validators: validators.map((validator) => ({
+        address: hex(validator.address),
+        pub_key: {
+          type: "tendermint/PubKeyEd25519",
+          value: base64(validator.pubKey),
+        },
+        voting_power: String(validator.votingPower),
+        proposer_priority: "0",
+      })),
+    },
+  });
+
+  it("decodes the RPC encoding", async () => {
+    const validators = await makeValidators([10, 20, 30]);
+    const block = await makeLightBlock({
+      height: 7,
+      validators,
+      signers: [0, 2],
+    });
+    expect(lightBlockFromJson(toJson(block))).toEqual(block);
+
+    const next = await makeValidators([5]);
+    const changing = await makeLightBlock({
+      height: 7,
+      validators,
+      nextValidators: next,
+    });
+    expect(
+      lightBlockFromJson({
+        ...toJson(changing),
+        next_validator_set: toJson({
+          ...changing,
+          validators: [next[0].validator],
+        }).validator_set,
+      }),
+    ).toEqual(changing);
+  });
+
+  it("rejects malformed blocks", async () => {
+    const validators = await makeValidators([10]);
+    const json = toJson(await makeLightBlock({ height: 7, validators }));
+    const [validator] = json.validator_set.validators;
+
+    expect(() => lightBlockFromJson(null)).toThrow("must be an object");
+    expect(() =>
+      lightBlockFromJson({
+        ...json,
+        validator_set: {
+          validators: [{ ...validator, address: hex(new Uint8Array(20)) }],
+        },
+      }),
+    ).toThrow("does not match its key");
+    expect(() =>
+      lightBlockFromJson({
+        ...json,
+        validator_set: {
+          validators: [
+            { ...validator, pub_key: { ...validator.pub_key, type: "x" } },
+          ],
+        },
+      }),
+    ).toThrow("Unsupported key type x");
+    expect(() =>
+      lightBlockFromJson({
+        ...json,
+        signed_header: {
+          ...json.signed_header,
+          header: { ...json.signed_header.header, height: "seven" },
+        },
+      }),
+    ).toThrow("header.height must be an integer");
+    expect(fromHex(json.signed_header.header.app_hash)).toEqual(
+      new Uint8Array(32).fill(6),
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import iavlExistLeft from "../../testdata/iavl/exist_left.json";
+import iavlExistMiddle from "../../testdata/iavl/exist_middle.json";
+import iavlExistRight from "../../testdata/iavl/exist_right.json";
+import iavlNonexistLeft from "../../testdata/iavl/nonexist_left.json";
+import iavlNonexistMiddle from "../../testdata/iavl/nonexist_middle.json";
+import iavlNonexistRight from "../../testdata/iavl/nonexist_right.json";
+import smtExistLeft from "../../testdata/smt/exist_left.json";
+import smtExistMiddle from "../../testdata/smt/exist_middle.json";
+import smtExistRight from "../../testdata/smt/exist_right.json";
+import smtNonexistLeft from "../../testdata/smt/nonexist_left.json";
+import smtNonexistMiddle from "../../testdata/smt/nonexist_middle.json";
+import smtNonexistRight from "../../testdata/smt/nonexist_right.json";
+import tendermintExistLeft from "../../testdata/tendermint/exist_left.json";
+import tendermintExistMiddle from "../../testdata/tendermint/exist_middle.json";
+import tendermintExistRight from "../../testdata/tendermint/exist_right.json";
+import tendermintNonexistLeft from "../../testdata/tendermint/nonexist_left.json";
+import tendermintNonexistMiddle from "../../testdata/tendermint/nonexist_middle.json";
+import tendermintNonexistRight from "../../testdata/tendermint/nonexist_right.json";
+
+import { compress, compressWithStats, decompress } from "./../compress";
+import {
+  BatchEntry,
+  CommitmentProof,
+  InnerOp,
+} from "./../proto/cosmos/ics23/v1/proofs";
+import { fromHex, toHex } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+const groups = {
+  iavl: [
+    iavlExistLeft,
+    iavlExistRight,
+    iavlExistMiddle,
+    iavlNonexistLeft,
+    iavlNonexistRight,
+    iavlNonexistMiddle,
+  ],
+  tendermint: [
+    tendermintExistLeft,
+    tendermintExistRight,
+    tendermintExistMiddle,
+    tendermintNonexistLeft,
+    tendermintNonexistRight,
+    tendermintNonexistMiddle,
+  ],
+  smt: [
+    smtExistLeft,
+    smtExistRight,
+    smtExistMiddle,
+    smtNonexistLeft,
+    smtNonexistRight,
+    smtNonexistMiddle,
+  ],
+};
+
+const decode = ({ proof }: { proof: string }) =>
+  CommitmentProof.decode(fromHex(proof));
+
+// batch puts the proofs of vectors into a single batch proof
+function batch(vectors: readonly { proof: string }[]): CommitmentProof {
+  const entries = vectors
+    .map(decode)
+    .map(({ exist, nonexist }): BatchEntry => ({ exist, nonexist }));
+  return { batch: { entries } };
+}
+
+const encode = (proof: CommitmentProof) =>
+  CommitmentProof.encode(proof).finish();
+
+describe("compress", () => {
+  it("stores every distinct inner node once", () => {
+    const proof = batch(groups.iavl);
+    const { lookupInners } = compress(proof).compressed!;
+    const nodes = lookupInners.map((inner) =>
+      toHex(InnerOp.encode(inner).finish()),
+    );
+    expect(new Set(nodes).size).toEqual(nodes.length);
+
+    // compressing twice the same entries adds no nodes
+    const doubled = {
+      batch: { entries: [...proof.batch!.entries, ...proof.batch!.entries] },
+    };
+    expect(compress(doubled).compressed!.lookupInners).toEqual(lookupInners);
+  });
+
+  it("is deterministic", () => {
+    for (const vectors of Object.values(groups)) {
+      const first = encode(compress(batch(vectors)));
+      const second = encode(compress(batch(vectors)));
+      expect(second).toEqual(first);
+    }
+  });
+
+  it("round-trips every vector", () => {
+    const vectors = Object.values(groups).flat();
+    for (const vector of vectors) {
+      const proof = decode(vector);
+      expect(decompress(compress(proof))).toEqual(proof);
+      const single = batch([vector]);
+      expect(decompress(compress(single))).toEqual(single);
+    }
+    for (const proof of [...Object.values(groups), vectors].map(batch)) {
+      expect(decompress(compress(proof))).toEqual(proof);
+      expect(compress(decompress(compress(proof)))).toEqual(compress(proof));
+    }
+  });
+});
+
+describe("compressWithStats", () => {
+  it("reports the nodes and bytes saved", () => {
+    const proof = batch(groups.iavl);
+    const { proof: compressed, stats } = compressWithStats(proof);
+    expect(compressed).toEqual(compress(proof));
+
+    const paths = proof
+      .batch!.entries.flatMap(({ exist, nonexist }) => [
+        exist,
+        nonexist?.left,
+        nonexist?.right,
+      ])
+      .map((exist) => exist?.path.length ?? 0);
+    expect(stats.totalInners).toEqual(paths.reduce((a, b) => a + b));
+    expect(stats.uniqueInners).toEqual(
+      compressed.compressed!.lookupInners.length,
+    );
+    expect(stats.uniqueInners).toBeLessThan(stats.totalInners);
+    expect(stats.originalBytes).toEqual(encode(proof).length);
+    expect(stats.compressedBytes).toEqual(encode(compressed).length);
+    expect(stats.bytesSaved).toBeGreaterThan(0);
+    expect(stats.bytesSaved).toEqual(
+      stats.originalBytes - stats.compressedBytes,
+    );
+    expect(stats.ratio).toBeCloseTo(
+      stats.compressedBytes / stats.originalBytes,
+    );
+  });
+
+  it("reports no savings for proofs that aren't batches", () => {
+    const proof = decode(iavlExistLeft);
+    const { stats } = compressWithStats(proof);
+    expect(stats).toMatchObject({ bytesSaved: 0, ratio: 1 });
+    expect(stats.totalInners).toEqual(proof.exist!.path.length);
+    expect(stats.uniqueInners).toEqual(stats.totalInners);
+  });
+});
@@ -0,0 +1,98 @@
+import iavlExistMiddle from "../../testdata/iavl/exist_middle.json";
+import iavlNonexistMiddle from "../../testdata/iavl/nonexist_middle.json";
+import smtExistMiddle from "../../testdata/smt/exist_middle.json";
+import tendermintExistMiddle from "../../testdata/tendermint/exist_middle.json";
+import webcatLeaves from "../../testdata/webcat/leaves.json";
+
+import { detectSpec } from "./../detect";
+import { VerificationError, VerificationErrorCode } from "./../errors";
+import { iavlSpec, smtSpec, tendermintSpec } from "./../proofs";
+import { CommitmentProof, HashOp } from "./../proto/cosmos/ics23/v1/proofs";
+import { webcatSpec } from "./../webcat";
+import { fromHex } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+function decode(hex: string): CommitmentProof {
+  return CommitmentProof.decode(fromHex(hex));
+}
+
+describe("detectSpec", () => {
+  it("detects the spec of the test vectors", () => {
+    const vectors = [
+      [iavlExistMiddle.proof, "iavl"],
+      [iavlNonexistMiddle.proof, "iavl"],
+      [tendermintExistMiddle.proof, "tendermint"],
+      [smtExistMiddle.proof, "smt"],
+      [webcatLeaves.proof.merkle_proof.proof_bytes[0], "webcat"],
+    ];
+    for (const [hex, name] of vectors) {
+      const { matches, closest } = detectSpec(decode(hex));
+      expect(matches.map((match) => match.name)).toEqual([name]);
+      expect(matches[0].failures).toEqual([]);
+      expect(closest).toBeUndefined();
+    }
+  });
+
+  it("only considers the given candidates", () => {
+    const proof = decode(iavlExistMiddle.proof);
+    const { matches } = detectSpec(proof, [tendermintSpec, iavlSpec]);
+    expect(matches.map((match) => match.spec)).toEqual([iavlSpec]);
+
+    const custom = { ...iavlSpec, maxDepth: 100 };
+    const detection = detectSpec(proof, [custom]);
+    expect(detection.matches).toHaveLength(1);
+    expect(detection.matches[0].name).toBeUndefined();
+  });
+
+  it("reports the closest match and its failed checks", () => {
+    const proof = decode(iavlExistMiddle.proof);
+    const steps = proof.exist!.path.length;
+    const sha512Spec = {
+      ...iavlSpec,
+      innerSpec: { ...iavlSpec.innerSpec!, hash: HashOp.SHA512 },
+      minDepth: steps + 1,
+    };
+    // fails every check sha512Spec fails, and the leaf check
+    const worse = { ...sha512Spec, leafSpec: smtSpec.leafSpec };
+    const { matches, closest } = detectSpec(proof, [worse, sha512Spec]);
+    expect(matches).toEqual([]);
+    expect(closest!.spec).toBe(sha512Spec);
+    expect(closest!.failures.map(({ check }) => check)).toEqual([
+      "depth",
+      ...Array(steps).fill("inner"),
+    ]);
+    expect(closest!.failures[0].code).toEqual(
+      VerificationErrorCode.DEPTH_TOO_SHALLOW,
+    );
+    expect(closest!.failures[1]).toMatchObject({
+      proof: 0,
+      step: 0,
+      code: VerificationErrorCode.INNER_SPEC_MISMATCH,
+      detail: { field: "hash" },
+    });
+  });
+
+  it("checks both neighbors of non-existence proofs", () => {
+    const proof = decode(iavlNonexistMiddle.proof);
+    const { closest } = detectSpec(proof, [
+      { ...iavlSpec, leafSpec: { ...iavlSpec.leafSpec!, hash: HashOp.SHA512 } },
+    ]);
+    expect(closest!.failures).toMatchObject([
+      {
+        proof: 0,
+        check: "leaf",
+        code: VerificationErrorCode.LEAF_SPEC_MISMATCH,
+      },
+      {
+        proof: 1,
+        check: "leaf",
+        code: VerificationErrorCode.LEAF_SPEC_MISMATCH,
+      },
+    ]);
+  });
+
+  it("rejects proofs without existence proofs", () => {
+    expect(() => detectSpec({}, [webcatSpec])).toThrow(VerificationError);
+  });
+});
@@ -0,0 +1,67 @@
+import leavesData from "../../testdata/webcat/leaves.json";
+
+import { decodeWebcatEnrollment, webcatEnrollments } from "./../enrollment";
+import { verifyWebcatProofSync, WebcatLeaf } from "./../webcat";
+import { fromHex } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+const policyHash = "ab".repeat(32);
+
+describe("decodeWebcatEnrollment", () => {
+  it("decodes the leaves of a verified file", () => {
+    const leaves = verifyWebcatProofSync(leavesData);
+    expect(leaves).not.toBe(false);
+
+    const enrollments = webcatEnrollments(leaves as readonly WebcatLeaf[]);
+    expect([...enrollments.keys()]).toEqual([
+      ".re.nym.element",
+      ".re.nym.testapp",
+    ]);
+    expect(enrollments.get(".re.nym.element")).toEqual({
+      domain: ".re.nym.element",
+      policyHash: fromHex(
+        "4d23727640d906fe90359de6ed9b813fd7c58f44c3ea11c39b3730bbdba52b70",
+      ),
+    });
+  });
+
+  it("skips unknown fields", () => {
+    // field 2 varint 1, field 3 string "x", then the policy hash
+    const value = `1001` + `1a0178` + `0a20${policyHash}`;
+    expect(decodeWebcatEnrollment(["example.com", value])).toEqual({
+      domain: "example.com",
+      policyHash: fromHex(policyHash),
+    });
+  });
+
+  it("rejects malformed values", () => {
+    const cases: [string, string][] = [
+      ["zz", "hex"],
+      ["", "policy hash is missing"],
+      ["1001", "policy hash is missing"],
+      [`0a1f${"ab".repeat(31)}`, "policy hash has 31 bytes"],
+      [`0a20${"ab".repeat(31)}`, "premature EOF"],
+      [`0820`, "policy hash has wire type 0"],
+      [`0a20${policyHash}0a20${policyHash}`, "policy hash is repeated"],
+      [`130a20${policyHash}`, "unsupported group in field 2"],
+    ];
+    for (const [value, message] of cases) {
+      expect(() => decodeWebcatEnrollment(["example.com", value])).toThrow(
+        message,
+      );
+    }
+    expect(() =>
+      decodeWebcatEnrollment(["canonical/", `0a20${policyHash}`]),
+    ).toThrow("domain must not be empty");
+  });
+
+  it("rejects domains enrolled twice", () => {
+    expect(() =>
+      webcatEnrollments([
+        ["canonical/example.com", `0a20${policyHash}`],
+        ["example.com", `0a20${policyHash}`],
+      ]),
+    ).toThrow("Domain example.com is enrolled twice");
+  });
+});
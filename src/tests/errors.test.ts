@@ -0,0 +1,233 @@
+import iavlExistLeft from "../../testdata/iavl/exist_left.json";
+import iavlExistRight from "../../testdata/iavl/exist_right.json";
+import iavlNonexistLeft from "../../testdata/iavl/nonexist_left.json";
+import iavlNonexistMiddle from "../../testdata/iavl/nonexist_middle.json";
+
+import {
+  VerificationError,
+  VerificationErrorCode,
+  VerificationResult,
+} from "./../errors";
+import {
+  batchVerifyMembershipDetailed,
+  batchVerifyNonMembershipDetailedSync,
+  verifyMembershipDetailed,
+  verifyMembershipDetailedSync,
+  verifyNonMembershipDetailed,
+} from "./../ics23";
+import {
+  ensureSpec,
+  iavlSpec,
+  smtSpec,
+  tendermintSpec,
+  verifyExistence,
+  verifyNonExistence,
+} from "./../proofs";
+import {
+  CommitmentProof,
+  HashOp,
+  NonExistenceProof,
+  ProofSpec,
+} from "./../proto/cosmos/ics23/v1/proofs";
+import { fromHex } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+const exist = {
+  proof: CommitmentProof.decode(fromHex(iavlExistLeft.proof)),
+  root: fromHex(iavlExistLeft.root),
+  key: fromHex(iavlExistLeft.key),
+  value: fromHex(iavlExistLeft.value),
+};
+
+const nonexist = (vector: typeof iavlNonexistLeft) => ({
+  proof: CommitmentProof.decode(fromHex(vector.proof)),
+  root: fromHex(vector.root),
+  key: fromHex(vector.key),
+});
+
+const codeOf = (fn: () => void): VerificationErrorCode | undefined => {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(VerificationError);
+    return (err as VerificationError).code;
+  }
+  return undefined;
+};
+
+describe("VerificationError", () => {
+  it("is thrown by verifyExistence", async () => {
+    const { proof, key, value } = exist;
+    const root = new Uint8Array(32);
+    const err = await verifyExistence(
+      proof.exist!,
+      iavlSpec,
+      root,
+      key,
+      value,
+    ).catch((e) => e);
+
+    expect(err).toBeInstanceOf(VerificationError);
+    expect(err).toBeInstanceOf(Error);
+    expect(err.code).toBe(VerificationErrorCode.ROOT_MISMATCH);
+    expect(err.detail.expected).toEqual(root);
+    expect(err.detail.index).toBe(0);
+    expect(err.detail.message).toBe(err.message);
+  });
+
+  it("reports spec mismatches", () => {
+    const { exist: proof } = exist.proof;
+    expect(codeOf(() => ensureSpec(proof!, iavlSpec))).toBeUndefined();
+    expect(codeOf(() => ensureSpec(proof!, smtSpec))).toBe(
+      VerificationErrorCode.LEAF_SPEC_MISMATCH,
+    );
+    const longPrefixSpec: ProofSpec = {
+      ...iavlSpec,
+      innerSpec: { ...iavlSpec.innerSpec!, minPrefixLength: 40 },
+    };
+    expect(codeOf(() => ensureSpec(proof!, longPrefixSpec))).toBe(
+      VerificationErrorCode.INNER_PREFIX_TOO_SHORT,
+    );
+    // iavl inner nodes carry their left sibling in the prefix
+    const rightmost = CommitmentProof.decode(fromHex(iavlExistRight.proof));
+    expect(codeOf(() => ensureSpec(rightmost.exist!, tendermintSpec))).toBe(
+      VerificationErrorCode.INNER_PREFIX_TOO_LONG,
+    );
+    const sha512Spec: ProofSpec = {
+      ...iavlSpec,
+      innerSpec: { ...iavlSpec.innerSpec!, hash: HashOp.SHA512 },
+    };
+    expect(codeOf(() => ensureSpec(proof!, sha512Spec))).toBe(
+      VerificationErrorCode.INNER_SPEC_MISMATCH,
+    );
+    const leafPrefixSpec: ProofSpec = {
+      ...iavlSpec,
+      leafSpec: { ...iavlSpec.leafSpec!, prefix: fromHex("01") },
+    };
+    expect(codeOf(() => ensureSpec(proof!, leafPrefixSpec))).toBe(
+      VerificationErrorCode.LEAF_SPEC_MISMATCH,
+    );
+  });
+
+  it("reports depth limits", () => {
+    const { exist: proof } = exist.proof;
+    const depth = proof!.path!.length;
+    expect(
+      codeOf(() => ensureSpec(proof!, { ...iavlSpec, maxDepth: depth - 1 })),
+    ).toBe(VerificationErrorCode.DEPTH_EXCEEDED);
+    expect(
+      codeOf(() => ensureSpec(proof!, { ...iavlSpec, minDepth: depth + 1 })),
+    ).toBe(VerificationErrorCode.DEPTH_TOO_SHALLOW);
+  });
+});
+
+describe("verifyMembershipDetailed", () => {
+  it("accepts valid proofs", async () => {
+    const { proof, root, key, value } = exist;
+    await expect(
+      verifyMembershipDetailed(proof, iavlSpec, root, key, value),
+    ).resolves.toEqual({ ok: true });
+  });
+
+  it("explains rejections", async () => {
+    const { proof, root, key, value } = exist;
+    const check = (
+      result: VerificationResult,
+      code: VerificationErrorCode,
+    ): void => {
+      expect(result.ok).toBe(false);
+      expect(result.code).toBe(code);
+      expect(result.detail?.message).toBeTruthy();
+    };
+
+    check(
+      await verifyMembershipDetailed(
+        proof,
+        iavlSpec,
+        fromHex("00"),
+        key,
+        value,
+      ),
+      VerificationErrorCode.ROOT_MISMATCH,
+    );
+    check(
+      await verifyMembershipDetailed(proof, iavlSpec, root, key, fromHex("00")),
+      VerificationErrorCode.VALUE_MISMATCH,
+    );
+    check(
+      await verifyMembershipDetailed(
+        proof,
+        iavlSpec,
+        root,
+        fromHex("00"),
+        value,
+      ),
+      VerificationErrorCode.PROOF_NOT_FOUND,
+    );
+    check(
+      verifyMembershipDetailedSync(proof, smtSpec, root, key, value),
+      VerificationErrorCode.LEAF_SPEC_MISMATCH,
+    );
+    check(
+      await batchVerifyMembershipDetailed(
+        proof,
+        iavlSpec,
+        root,
+        new Map([[key, fromHex("00")]]),
+      ),
+      VerificationErrorCode.VALUE_MISMATCH,
+    );
+  });
+});
+
+describe("verifyNonMembershipDetailed", () => {
+  it("accepts valid proofs", async () => {
+    for (const vector of [iavlNonexistLeft, iavlNonexistMiddle]) {
+      const { proof, root, key } = nonexist(vector);
+      await expect(
+        verifyNonMembershipDetailed(proof, iavlSpec, root, key),
+      ).resolves.toEqual({ ok: true });
+    }
+  });
+
+  it("reports neighbors that are not adjacent", async () => {
+    const { proof, root } = nonexist(iavlNonexistMiddle);
+    const { left, right } = proof.nonexist!;
+    const first = fromHex("00");
+    const last = fromHex("ffffffffffffffffffffffffffffffff");
+
+    const notLeftmost: NonExistenceProof = { key: first, right: left };
+    expect(
+      (
+        await verifyNonMembershipDetailed(
+          { nonexist: notLeftmost },
+          iavlSpec,
+          root,
+          first,
+        )
+      ).code,
+    ).toBe(VerificationErrorCode.NOT_LEFTMOST);
+
+    const notRightmost: NonExistenceProof = { key: last, left: right };
+    expect(
+      batchVerifyNonMembershipDetailedSync(
+        { batch: { entries: [{ nonexist: notRightmost }] } },
+        iavlSpec,
+        root,
+        [last],
+      ).code,
+    ).toBe(VerificationErrorCode.NOT_RIGHTMOST);
+  });
+
+  it("reports keys outside of the neighbors", async () => {
+    const { proof, root } = nonexist(iavlNonexistMiddle);
+    const err = await verifyNonExistence(
+      proof.nonexist!,
+      iavlSpec,
+      root,
+      fromHex("00"),
+    ).catch((e) => e);
+    expect(err.code).toBe(VerificationErrorCode.KEY_OUT_OF_RANGE);
+  });
+});
@@ -0,0 +1,253 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import iavlExistLeft from "../../testdata/iavl/exist_left.json";
+import smtNonexistLeft from "../../testdata/smt/nonexist_left.json";
+import leavesData from "../../testdata/webcat/leaves.json";
+import {
+  defaultHasher,
+  Hasher,
+  HashSteps,
+  hashSteps,
+  memoizeHashSteps,
+  pureHasher,
+  registerHasher,
+  runHashStepsSync,
+  webCryptoHasher,
+} from "../hasher";
+import {
+  verifyMembership,
+  verifyMembershipSync,
+  verifyNonMembership,
+} from "../ics23";
+import { doHash } from "../ops";
+import { iavlSpec, smtSpec, verifyExistence } from "../proofs";
+import { CommitmentProof, HashOp } from "../proto/cosmos/ics23/v1/proofs";
+import { verifyWebcatProof } from "../webcat";
+import { fromHex, toAscii } from "./testhelpers";
+
+const iavlExist = {
+  proof: CommitmentProof.decode(fromHex(iavlExistLeft.proof)),
+  root: fromHex(iavlExistLeft.root),
+  key: fromHex(iavlExistLeft.key),
+  value: fromHex(iavlExistLeft.value),
+};
+
+const countingHasher = (): { hasher: Hasher; calls: () => number } => {
+  let calls = 0;
+  const hasher: Hasher = {
+    [HashOp.SHA256]: (preimage) => {
+      calls++;
+      return pureHasher[HashOp.SHA256]!(preimage);
+    },
+  };
+  return { hasher, calls: () => calls };
+};
+
+afterEach(() => {
+  registerHasher(undefined);
+  vi.unstubAllGlobals();
+});
+
+describe("pureHasher", () => {
+  it("agrees with web crypto", async () => {
+    const webHasher = webCryptoHasher(globalThis.crypto.subtle);
+    for (const hashOp of [HashOp.SHA256, HashOp.SHA512, HashOp.BITCOIN]) {
+      const preimage = toAscii("food");
+      const expected = await webHasher[hashOp]!(preimage);
+      expect(pureHasher[hashOp]!(preimage)).toEqual(expected);
+    }
+  });
+
+  it("verifies proofs without web crypto", async () => {
+    const { proof, root, key, value } = iavlExist;
+    const valid = await verifyMembership(proof, iavlSpec, root, key, value, {
+      hasher: pureHasher,
+    });
+    expect(valid).toBe(true);
+  });
+});
+
+describe("defaultHasher", () => {
+  it("uses web crypto when it is available", async () => {
+    const digest = vi.fn(async () => new ArrayBuffer(32));
+    vi.stubGlobal("crypto", { subtle: { digest } });
+
+    await doHash(HashOp.SHA256, toAscii("food"));
+    expect(digest).toHaveBeenCalledWith("SHA-256", toAscii("food"));
+  });
+
+  it("falls back to the pure implementations", async () => {
+    vi.stubGlobal("crypto", undefined);
+
+    expect(defaultHasher()).toBe(pureHasher);
+    // echo -n food | sha256sum
+    await expect(doHash(HashOp.SHA256, toAscii("food"))).resolves.toEqual(
+      fromHex(
+        "c1f026582fe6e8cb620d0c85a72fe421ddded756662a8ec00ed4c297ad10676b",
+      ),
+    );
+    const { proof, root, key, value } = iavlExist;
+    await expect(
+      verifyMembership(proof, iavlSpec, root, key, value),
+    ).resolves.toBe(true);
+  });
+});
+
+describe("custom hashers", () => {
+  it("are used by verifyExistence", async () => {
+    const { hasher, calls } = countingHasher();
+    const { proof, root, key, value } = iavlExist;
+
+    await verifyExistence(proof.exist!, iavlSpec, root, key, value, {
+      hasher,
+    });
+    // leaf, prehashed value and one per inner node
+    expect(calls()).toBe(proof.exist!.path!.length + 2);
+  });
+
+  it("may be asynchronous", async () => {
+    const hasher: Hasher = {
+      [HashOp.SHA256]: async (preimage) => pureHasher[HashOp.SHA256]!(preimage),
+    };
+    const proof = CommitmentProof.decode(fromHex(smtNonexistLeft.proof));
+    const valid = await verifyNonMembership(
+      proof,
+      smtSpec,
+      fromHex(smtNonexistLeft.root),
+      fromHex(smtNonexistLeft.key),
+      { hasher },
+    );
+    expect(valid).toBe(true);
+  });
+
+  it("are used by verifyWebcatProof", async () => {
+    const { hasher, calls } = countingHasher();
+    await expect(verifyWebcatProof(leavesData, { hasher })).resolves.toEqual(
+      leavesData.leaves,
+    );
+    expect(calls()).toBeGreaterThan(0);
+  });
+
+  it("fail verification when they compute wrong digests", async () => {
+    const hasher: Hasher = { [HashOp.SHA256]: () => new Uint8Array(32) };
+    const { proof, root, key, value } = iavlExist;
+    await expect(
+      verifyMembership(proof, iavlSpec, root, key, value, { hasher }),
+    ).resolves.toBe(false);
+    await expect(verifyWebcatProof(leavesData, { hasher })).resolves.toBe(
+      false,
+    );
+  });
+
+  it("can be registered globally", async () => {
+    const { hasher, calls } = countingHasher();
+    registerHasher(hasher);
+
+    const { proof, root, key, value } = iavlExist;
+    await expect(
+      verifyMembership(proof, iavlSpec, root, key, value),
+    ).resolves.toBe(true);
+    expect(calls()).toBeGreaterThan(0);
+
+    registerHasher(undefined);
+    const before = calls();
+    await verifyMembership(proof, iavlSpec, root, key, value);
+    expect(calls()).toBe(before);
+  });
+
+  it("fall back for operations they do not provide", async () => {
+    const { hasher } = countingHasher();
+    // echo -n food | b3sum
+    await expect(
+      doHash(HashOp.BLAKE3, toAscii("food"), hasher),
+    ).resolves.toEqual(
+      fromHex(
+        "f775a8ccf8cb78cd1c63ade4e9802de4ead836b36cea35242accf31d2c6a3697",
+      ),
+    );
+  });
+});
+
+describe("synchronous verification", () => {
+  it("never touches web crypto", () => {
+    const digest = vi.fn(async () => new ArrayBuffer(32));
+    vi.stubGlobal("crypto", { subtle: { digest } });
+
+    const { proof, root, key, value } = iavlExist;
+    expect(verifyMembershipSync(proof, iavlSpec, root, key, value)).toBe(true);
+    expect(digest).not.toHaveBeenCalled();
+  });
+
+  it("uses synchronous custom hashers", () => {
+    const { hasher, calls } = countingHasher();
+    const { proof, root, key, value } = iavlExist;
+    expect(
+      verifyMembershipSync(proof, iavlSpec, root, key, value, { hasher }),
+    ).toBe(true);
+    expect(calls()).toBe(proof.exist!.path!.length + 2);
+  });
+
+  it("rejects asynchronous hashers", () => {
+    const hasher: Hasher = {
+      [HashOp.SHA256]: async (preimage) => pureHasher[HashOp.SHA256]!(preimage),
+    };
+    const { proof, root, key, value } = iavlExist;
+    expect(() =>
+      verifyMembershipSync(proof, iavlSpec, root, key, value, { hasher }),
+    ).toThrow(/asynchronous/);
+  });
+});
+
+describe("memoizeHashSteps", () => {
+  function* twice(preimage: Uint8Array): HashSteps<Uint8Array[]> {
+    return [
+      yield* hashSteps(HashOp.SHA256, preimage),
+      yield* hashSteps(HashOp.SHA256, Uint8Array.from(preimage)),
+      yield* hashSteps(HashOp.SHA512, preimage),
+    ];
+  }
+
+  it("computes every digest once", () => {
+    const { hasher, calls } = countingHasher();
+    const preimage = toAscii("twice");
+    const [first, second, other] = runHashStepsSync(
+      memoizeHashSteps(twice(preimage)),
+      hasher,
+    );
+    expect(calls()).toBe(1);
+    expect(second).toEqual(first);
+    expect(other).toEqual(pureHasher[HashOp.SHA512]!(preimage));
+  });
+
+  it("shares a cache between computations", () => {
+    const { hasher, calls } = countingHasher();
+    const cache = new Map();
+    runHashStepsSync(memoizeHashSteps(twice(toAscii("a")), cache), hasher);
+    runHashStepsSync(memoizeHashSteps(twice(toAscii("a")), cache), hasher);
+    expect(calls()).toBe(1);
+    expect(cache.size).toBe(2);
+  });
+
+  it("passes failures on without caching them", () => {
+    let fail = true;
+    const hasher: Hasher = {
+      [HashOp.SHA256]: (preimage) => {
+        if (fail) {
+          fail = false;
+          throw new Error("flaky");
+        }
+        return pureHasher[HashOp.SHA256]!(preimage);
+      },
+    };
+    function* retry(): HashSteps<Uint8Array> {
+      try {
+        return yield* hashSteps(HashOp.SHA256, toAscii("x"));
+      } catch {
+        return yield* hashSteps(HashOp.SHA256, toAscii("x"));
+      }
+    }
+    expect(runHashStepsSync(memoizeHashSteps(retry()), hasher)).toEqual(
+      pureHasher[HashOp.SHA256]!(toAscii("x")),
+    );
+  });
+});
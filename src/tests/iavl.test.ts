@@ -0,0 +1,135 @@
+import { sha256 } from "./../hashes";
+import { IavlTree } from "./../iavl";
+import {
+  batchVerifyMembership,
+  verifyMembership,
+  verifyNonMembership,
+} from "./../ics23";
+import { iavlSpec } from "./../proofs";
+import { fromHex, toAscii } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+// deterministic pseudo random keys of varying length
+const keyFor = (i: number): Uint8Array =>
+  sha256(toAscii(`key ${i}`)).slice(0, 1 + (i % 12));
+const valueFor = (i: number, version = 1): Uint8Array =>
+  toAscii(`value ${i} at ${version}`);
+
+const buildTree = (count: number): IavlTree => {
+  const tree = new IavlTree();
+  for (let i = 0; i < count; i++) {
+    tree.set(keyFor(i), valueFor(i));
+  }
+  tree.saveVersion();
+  return tree;
+};
+
+describe("IavlTree", () => {
+  it("stores and updates values", () => {
+    const tree = new IavlTree();
+    expect(tree.set(toAscii("a"), toAscii("1"))).toBe(false);
+    expect(tree.set(toAscii("b"), toAscii("2"))).toBe(false);
+    expect(tree.set(toAscii("a"), toAscii("3"))).toBe(true);
+
+    expect(tree.get(toAscii("a"))).toEqual(toAscii("3"));
+    expect(tree.has(toAscii("c"))).toBe(false);
+    expect(tree.size).toBe(2);
+    expect(tree.remove(toAscii("a"))).toEqual(toAscii("3"));
+    expect(tree.remove(toAscii("a"))).toBeUndefined();
+    expect(tree.size).toBe(1);
+  });
+
+  it("stays balanced", () => {
+    const tree = new IavlTree();
+    for (let i = 0; i < 512; i++) {
+      // sorted inserts are the worst case for an unbalanced tree
+      tree.set(Uint8Array.from([i >> 8, i & 0xff]), valueFor(i));
+    }
+    tree.saveVersion();
+    const proof = tree.getMembershipProof(Uint8Array.from([0, 0]));
+    // an AVL tree of n leaves is at most 1.44 log2(n) high
+    expect(proof.exist!.path!.length).toBeLessThanOrEqual(
+      Math.ceil(1.44 * Math.log2(512)),
+    );
+  });
+
+  it("produces existence proofs", async () => {
+    const tree = buildTree(100);
+    const root = tree.rootHash();
+    for (let i = 0; i < 100; i++) {
+      const proof = tree.getMembershipProof(keyFor(i));
+      await expect(
+        verifyMembership(proof, iavlSpec, root, keyFor(i), valueFor(i)),
+      ).resolves.toBe(true);
+    }
+  });
+
+  it("produces non-existence proofs", async () => {
+    const tree = buildTree(100);
+    const root = tree.rootHash();
+    const missing = [
+      new Uint8Array([0x00]),
+      fromHex("ffffffffffffffffffffffffffffffff"),
+      ...Array.from({ length: 30 }, (_, i) => toAscii(`missing ${i}`)),
+    ];
+    for (const key of missing) {
+      const proof = tree.getNonMembershipProof(key);
+      await expect(
+        verifyNonMembership(proof, iavlSpec, root, key),
+      ).resolves.toBe(true);
+    }
+
+    expect(() => tree.getNonMembershipProof(keyFor(3))).toThrow();
+    expect(() => tree.getMembershipProof(missing[0])).toThrow();
+  });
+
+  it("encodes node versions in the proofs", () => {
+    const tree = buildTree(20);
+    tree.set(keyFor(5), valueFor(5, 2));
+    tree.saveVersion();
+
+    const { exist } = tree.getMembershipProof(keyFor(5));
+    // height 0, size 1 and version 2, zigzag encoded
+    expect(exist!.leaf!.prefix).toEqual(fromHex("000204"));
+    // the whole path was rewritten in version 2
+    for (const inner of exist!.path!) {
+      expect(inner.prefix!.slice(2, 3)).toEqual(fromHex("04"));
+    }
+  });
+
+  it("keeps proving old versions", async () => {
+    const tree = buildTree(50);
+    const oldRoot = tree.rootHash(1);
+    for (let i = 0; i < 50; i += 2) {
+      tree.remove(keyFor(i));
+    }
+    for (let i = 50; i < 70; i++) {
+      tree.set(keyFor(i), valueFor(i, 2));
+    }
+    expect(tree.saveVersion()).toBe(2);
+    expect(tree.availableVersions()).toEqual([1, 2]);
+    expect(tree.rootHash(2)).not.toEqual(oldRoot);
+
+    const items = new Map([
+      [keyFor(0), valueFor(0)],
+      [keyFor(1), valueFor(1)],
+    ]);
+    const proof = {
+      batch: {
+        entries: [...items.keys()].map((key) => ({
+          exist: tree.getMembershipProof(key, 1).exist,
+        })),
+      },
+    };
+    await expect(
+      batchVerifyMembership(proof, iavlSpec, oldRoot, items),
+    ).resolves.toBe(true);
+
+    const removed = tree.getNonMembershipProof(keyFor(0), 2);
+    await expect(
+      verifyNonMembership(removed, iavlSpec, tree.rootHash(2), keyFor(0)),
+    ).resolves.toBe(true);
+    expect(() => tree.rootHash(3)).toThrow();
+  });
+});
@@ -0,0 +1,49 @@
+import { verifyMembership, verifyNonMembership } from "./../ics23";
+import { JellyfishMerkleTree } from "./../jmt";
+import { webcatSpec } from "./../webcat";
+import { toAscii } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+const keyFor = (i: number): Uint8Array => toAscii(`key ${i}`);
+const valueFor = (i: number): Uint8Array => toAscii(`value ${i}`);
+
+const buildTree = (count: number): JellyfishMerkleTree => {
+  const tree = new JellyfishMerkleTree();
+  for (let i = 0; i < count; i++) {
+    tree.set(keyFor(i), valueFor(i));
+  }
+  return tree;
+};
+
+describe("JellyfishMerkleTree", () => {
+  it("hashes an empty tree to the placeholder", () => {
+    expect(new JellyfishMerkleTree().rootHash()).toEqual(
+      toAscii("SPARSE_MERKLE_PLACEHOLDER_HASH__"),
+    );
+  });
+
+  it("produces existence proofs", async () => {
+    const tree = buildTree(64);
+    const root = tree.rootHash();
+    for (let i = 0; i < 64; i++) {
+      const proof = tree.getMembershipProof(keyFor(i));
+      await expect(
+        verifyMembership(proof, webcatSpec, root, keyFor(i), valueFor(i)),
+      ).resolves.toBe(true);
+    }
+  });
+
+  it("produces non-existence proofs", async () => {
+    for (const count of [1, 3, 64]) {
+      const tree = buildTree(count);
+      const root = tree.rootHash();
+      for (let i = 64; i < 96; i++) {
+        const proof = tree.getNonMembershipProof(keyFor(i));
+        await expect(
+          verifyNonMembership(proof, webcatSpec, root, keyFor(i)),
+        ).resolves.toBe(true);
+      }
+    }
+  });
+});
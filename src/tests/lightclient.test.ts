@@ -0,0 +1,367 @@
+import leavesData from "../../testdata/webcat/leaves.json";
+
+import { headerHash, LightBlock } from "./../cometbft";
+import { VerificationErrorCode } from "./../errors";
+import { verifyLightBlock, verifyLightBlocks } from "./../lightclient";
+import { verifyAnchoredWebcatProof } from "./../webcat";
+import { makeLightBlock, makeValidators, TestValidator } from "./chainhelpers";
+import { fromHex } from "./testhelpers";
+
+import { beforeAll, describe, it, expect } from "vitest";
+
+const options = {
+  trustingPeriod: 24 * 3600,
+  now: new Date("2024-01-01T01:00:00Z"),
+};
+
+let validatorsA: TestValidator[];
+let validatorsB: TestValidator[];
+// two validators of A stay, one of B joins
+let validatorsAB: TestValidator[];
+let trusted: LightBlock;
+
+beforeAll(async () => {
+  validatorsA = await makeValidators([10, 10, 10]);
+  validatorsB = await makeValidators([10, 10, 10]);
+  validatorsAB = [validatorsA[0], validatorsA[1], validatorsB[0]];
+  trusted = await makeLightBlock({ height: 1, validators: validatorsA });
+});
+
+function tamper(
+  block: LightBlock,
+  header: Partial<LightBlock["signedHeader"]["header"]>,
+): LightBlock {
+  return {
+    ...block,
+    signedHeader: {
+      ...block.signedHeader,
+      header: { ...block.signedHeader.header, ...header },
+    },
+  };
+}
+
+describe("verifyLightBlock", () => {
+  it("verifies adjacent blocks", async () => {
+    const next = await makeLightBlock({ height: 2, validators: validatorsA });
+    await expect(verifyLightBlock(trusted, next, options)).resolves.toEqual({
+      ok: true,
+    });
+  });
+
+  it("requires adjacent blocks to be signed by the next validators", async () => {
+    const next = await makeLightBlock({ height: 2, validators: validatorsAB });
+    await expect(
+      verifyLightBlock(trusted, next, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.VALIDATORS_MISMATCH,
+    });
+  });
+
+  it("skips blocks signed by enough trusted validators", async () => {
+    const later = await makeLightBlock({
+      height: 20,
+      validators: validatorsAB,
+    });
+    await expect(verifyLightBlock(trusted, later, options)).resolves.toEqual({
+      ok: true,
+    });
+
+    // a single trusted validator is exactly 1/3, which is not enough
+    const fewer = await makeLightBlock({
+      height: 20,
+      validators: [validatorsA[0], validatorsB[1], validatorsB[0]],
+    });
+    await expect(
+      verifyLightBlock(trusted, fewer, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.INSUFFICIENT_VOTING_POWER,
+    });
+    await expect(
+      verifyLightBlock(trusted, fewer, {
+        ...options,
+        trustLevel: { numerator: 1n, denominator: 4n },
+      }),
+    ).resolves.toMatchObject({
+      ok: false,
+      detail: { message: "Trust level must be between 1/3 and 1, got 1/4" },
+    });
+  });
+
+  it("skips from the next validators of the trusted block", async () => {
+    const changing = await makeLightBlock({
+      height: 1,
+      validators: validatorsA,
+      nextValidators: validatorsB,
+    });
+    const later = await makeLightBlock({ height: 20, validators: validatorsB });
+    await expect(verifyLightBlock(changing, later, options)).resolves.toEqual({
+      ok: true,
+    });
+
+    // the validators of the trusted block itself don't count
+    const signedByA = await makeLightBlock({
+      height: 20,
+      validators: validatorsA,
+    });
+    await expect(
+      verifyLightBlock(changing, signedByA, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.INSUFFICIENT_VOTING_POWER,
+    });
+
+    const withoutNext = { ...changing, nextValidators: undefined };
+    await expect(
+      verifyLightBlock(withoutNext, later, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.VALIDATORS_MISMATCH,
+    });
+    const wrongNext = { ...changing, nextValidators: changing.validators };
+    await expect(
+      verifyLightBlock(wrongNext, later, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.VALIDATORS_MISMATCH,
+    });
+  });
+
+  it("requires more than 2/3 of the block's own validators", async () => {
+    const next = await makeLightBlock({
+      height: 2,
+      validators: validatorsA,
+      signers: [0, 2],
+    });
+    const result = await verifyLightBlock(trusted, next, options);
+    expect(result).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.INSUFFICIENT_VOTING_POWER,
+      detail: { expected: 20, actual: 20 },
+    });
+  });
+
+  it("rejects invalid signatures", async () => {
+    const next = await makeLightBlock({ height: 2, validators: validatorsA });
+    const { commit } = next.signedHeader;
+    const signatures = commit.signatures.map((sig, i) =>
+      i === 1 ? { ...sig, signature: sig.signature.map((b) => b ^ 1) } : sig,
+    );
+    const forged = {
+      ...next,
+      signedHeader: {
+        ...next.signedHeader,
+        commit: { ...commit, signatures },
+      },
+    };
+    await expect(
+      verifyLightBlock(trusted, forged, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.INVALID_SIGNATURE,
+      detail: { index: 1 },
+    });
+  });
+
+  it("rejects headers the commit does not sign", async () => {
+    const next = await makeLightBlock({ height: 2, validators: validatorsA });
+    const result = await verifyLightBlock(
+      trusted,
+      tamper(next, { appHash: new Uint8Array(32) }),
+      options,
+    );
+    expect(result).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.HEADER_MISMATCH,
+    });
+
+    const unrelated = await makeLightBlock({
+      height: 2,
+      validators: validatorsA,
+      chainId: "other-chain",
+    });
+    await expect(
+      verifyLightBlock(trusted, unrelated, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.CHAIN_ID_MISMATCH,
+    });
+  });
+
+  it("rejects validators the header does not commit to", async () => {
+    const next = await makeLightBlock({ height: 2, validators: validatorsA });
+    const swapped = {
+      ...next,
+      validators: validatorsB.map(({ validator }) => validator),
+    };
+    await expect(
+      verifyLightBlock(trusted, swapped, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.VALIDATORS_MISMATCH,
+    });
+  });
+
+  it("enforces the trusting period and clock drift", async () => {
+    const next = await makeLightBlock({ height: 2, validators: validatorsA });
+    await expect(
+      verifyLightBlock(trusted, next, {
+        ...options,
+        now: new Date("2024-01-03T00:00:00Z"),
+      }),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.TRUST_EXPIRED,
+    });
+    await expect(
+      verifyLightBlock(trusted, next, {
+        ...options,
+        now: new Date("2024-01-01T00:00:00Z"),
+      }),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.HEADER_FROM_FUTURE,
+    });
+    await expect(
+      verifyLightBlock(next, trusted, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.HEADER_MISMATCH,
+    });
+  });
+
+  it("uses the given signature verifier", async () => {
+    const next = await makeLightBlock({ height: 2, validators: validatorsA });
+    const verifySignature = async () => false;
+    await expect(
+      verifyLightBlock(trusted, next, { ...options, verifySignature }),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.INVALID_SIGNATURE,
+    });
+  });
+});
+
+describe("verifyLightBlocks", () => {
+  it("verifies a sequence of blocks and reports the failing one", async () => {
+    const blocks = [
+      await makeLightBlock({
+        height: 2,
+        validators: validatorsA,
+        nextValidators: validatorsAB,
+      }),
+      await makeLightBlock({ height: 3, validators: validatorsAB }),
+      await makeLightBlock({ height: 40, validators: validatorsB }),
+    ];
+    await expect(
+      verifyLightBlocks(trusted, blocks.slice(0, 2), options),
+    ).resolves.toEqual({ ok: true });
+    await expect(
+      verifyLightBlocks(trusted, blocks, options),
+    ).resolves.toMatchObject({
+      ok: false,
+      block: 2,
+      code: VerificationErrorCode.INSUFFICIENT_VOTING_POWER,
+    });
+    await expect(
+      verifyLightBlocks(trusted, blocks, {
+        ...options,
+        trustLevel: { numerator: 2n, denominator: 1n },
+      }),
+    ).resolves.toMatchObject({
+      ok: false,
+      detail: { message: "Trust level must be between 1/3 and 1, got 2/1" },
+    });
+  });
+});
+
+describe("verifyAnchoredWebcatProof", () => {
+  const appHash = fromHex(leavesData.proof.app_hash);
+  const height = leavesData.block_height;
+
+  it("anchors the leaves in a verified block", async () => {
+    const anchor = await makeLightBlock({
+      height,
+      validators: validatorsA,
+      appHash,
+    });
+    const result = await verifyAnchoredWebcatProof(
+      leavesData,
+      trusted,
+      [anchor],
+      { ...options, now: new Date(Date.UTC(2024, 0, 1) + height * 5000) },
+    );
+    expect(result).toEqual({
+      ok: true,
+      leaves: leavesData.leaves,
+      height: BigInt(height),
+      blockHash: headerHash(anchor.signedHeader.header),
+    });
+  });
+
+  it("rejects files the verified block does not commit to", async () => {
+    const now = new Date(Date.UTC(2024, 0, 1) + height * 5000);
+    const otherAppHash = await makeLightBlock({
+      height,
+      validators: validatorsA,
+    });
+    await expect(
+      verifyAnchoredWebcatProof(leavesData, trusted, [otherAppHash], {
+        ...options,
+        now,
+      }),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.APP_HASH_MISMATCH,
+    });
+
+    const otherHeight = await makeLightBlock({
+      height: 2,
+      validators: validatorsA,
+      appHash,
+    });
+    await expect(
+      verifyAnchoredWebcatProof(leavesData, trusted, [otherHeight], options),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.HEADER_MISMATCH,
+    });
+
+    const anchor = await makeLightBlock({
+      height,
+      validators: validatorsA,
+      appHash,
+    });
+    const tampered = {
+      ...leavesData,
+      leaves: [leavesData.leaves[0]],
+    };
+    await expect(
+      verifyAnchoredWebcatProof(tampered, trusted, [anchor], {
+        ...options,
+        now,
+      }),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.ROOT_MISMATCH,
+    });
+  });
+
+  it("fails if the light client does", async () => {
+    const anchor = await makeLightBlock({
+      height,
+      validators: validatorsB,
+      appHash,
+    });
+    await expect(
+      verifyAnchoredWebcatProof(leavesData, trusted, [anchor], {
+        ...options,
+        now: new Date(Date.UTC(2024, 0, 1) + height * 5000),
+      }),
+    ).resolves.toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.INSUFFICIENT_VOTING_POWER,
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import iavlExistLeft from "../../testdata/iavl/exist_left.json";
+import iavlExistMiddle from "../../testdata/iavl/exist_middle.json";
+import iavlNonexistMiddle from "../../testdata/iavl/nonexist_middle.json";
+import leavesData from "../../testdata/webcat/leaves.json";
+
+import { compress, decompress } from "./../compress";
+import { VerificationError, VerificationErrorCode } from "./../errors";
+import {
+  verifyMembershipDetailed,
+  verifyMembershipDetailedSync,
+} from "./../ics23";
+import { decodeProof, defaultLimits, ensureProofLimits } from "./../limits";
+import { iavlSpec } from "./../proofs";
+import { CommitmentProof } from "./../proto/cosmos/ics23/v1/proofs";
+import { verifyWebcatProofSync } from "./../webcat";
+import { fromHex } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+const decode = ({ proof }: { proof: string }) =>
+  CommitmentProof.decode(fromHex(proof));
+
+const batch = (...vectors: { proof: string }[]): CommitmentProof => ({
+  batch: {
+    entries: vectors
+      .map(decode)
+      .map(({ exist, nonexist }) => ({ exist, nonexist })),
+  },
+});
+
+// thrown returns the VerificationError fn throws
+function thrown(fn: () => unknown): VerificationError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(VerificationError);
+    return err as VerificationError;
+  }
+  throw new Error("Expected an error");
+}
+
+describe("decodeProof", () => {
+  const bytes = fromHex(iavlExistLeft.proof);
+
+  it("decodes proofs within the limits", () => {
+    expect(decodeProof(bytes)).toEqual(decode(iavlExistLeft));
+  });
+
+  it("rejects large proofs before decoding them", () => {
+    const err = thrown(() =>
+      decodeProof(bytes, { maxProofBytes: bytes.length - 1 }),
+    );
+    expect(err.code).toEqual(VerificationErrorCode.PROOF_TOO_LARGE);
+    expect(err.detail).toMatchObject({
+      field: "maxProofBytes",
+      expected: bytes.length - 1,
+      actual: bytes.length,
+    });
+  });
+
+  it("rejects malformed bytes", () => {
+    const err = thrown(() => decodeProof(bytes.slice(0, 20)));
+    expect(err.code).toEqual(VerificationErrorCode.MALFORMED_PROOF);
+  });
+});
+
+describe("ensureProofLimits", () => {
+  const exist = decode(iavlExistLeft);
+  const { key, value, path } = exist.exist!;
+
+  it("names the limit that was exceeded", () => {
+    const cases = [
+      [
+        { maxBatchEntries: 1 },
+        batch(iavlExistLeft, iavlExistMiddle),
+        VerificationErrorCode.TOO_MANY_ENTRIES,
+      ],
+      [
+        { maxPathDepth: path.length - 1 },
+        exist,
+        VerificationErrorCode.PATH_TOO_DEEP,
+      ],
+      [
+        { maxKeyLength: key.length - 1 },
+        exist,
+        VerificationErrorCode.KEY_TOO_LONG,
+      ],
+      [
+        { maxKeyLength: key.length - 1 },
+        batch(iavlNonexistMiddle),
+        VerificationErrorCode.KEY_TOO_LONG,
+      ],
+      [
+        { maxValueLength: value.length - 1 },
+        exist,
+        VerificationErrorCode.VALUE_TOO_LONG,
+      ],
+      [
+        { maxLookupInners: 1 },
+        compress(batch(iavlExistLeft, iavlExistMiddle)),
+        VerificationErrorCode.LOOKUP_TOO_LARGE,
+      ],
+      [
+        { maxPathDepth: path.length - 1 },
+        compress(batch(iavlExistLeft)),
+        VerificationErrorCode.PATH_TOO_DEEP,
+      ],
+    ] as const;
+    for (const [limits, proof, code] of cases) {
+      expect(() => ensureProofLimits(proof)).not.toThrow();
+      const err = thrown(() => ensureProofLimits(proof, limits));
+      expect(err.code).toEqual(code);
+      expect(err.detail.field).toEqual(Object.keys(limits)[0]);
+    }
+  });
+
+  it("checks proofs again against lower limits", () => {
+    const proof = decode(iavlExistLeft);
+    ensureProofLimits(proof, { maxPathDepth: 1000 });
+    ensureProofLimits(proof, defaultLimits);
+    expect(() => ensureProofLimits(proof, { maxPathDepth: 1 })).toThrow(
+      "Path exceeds maxPathDepth",
+    );
+  });
+
+  it("checks proofs again after they change", () => {
+    const proof = batch(iavlExistLeft);
+    const limits = { maxPathDepth: path.length };
+    ensureProofLimits(proof, limits);
+    const entry = proof.batch!.entries[0].exist!;
+    entry.path.push(...entry.path);
+    expect(thrown(() => ensureProofLimits(proof, limits)).code).toEqual(
+      VerificationErrorCode.PATH_TOO_DEEP,
+    );
+  });
+});
+
+describe("decompress", () => {
+  const compressed = compress(batch(iavlExistLeft, iavlExistMiddle));
+
+  it("rejects indexes outside the lookup table", () => {
+    const { entries, lookupInners } = compressed.compressed!;
+    for (const index of [lookupInners.length, -1]) {
+      const exist = entries[1].exist!;
+      const bad: CommitmentProof = {
+        compressed: {
+          lookupInners,
+          entries: [
+            entries[0],
+            { exist: { ...exist, path: [...exist.path.slice(1), index] } },
+          ],
+        },
+      };
+      const err = thrown(() => decompress(bad));
+      expect(err.code).toEqual(VerificationErrorCode.INVALID_LOOKUP_INDEX);
+      expect(err.detail).toMatchObject({
+        index: exist.path.length - 1,
+        actual: index,
+      });
+    }
+  });
+
+  it("applies limits before decompressing", () => {
+    const err = thrown(() => decompress(compressed, { maxBatchEntries: 1 }));
+    expect(err.code).toEqual(VerificationErrorCode.TOO_MANY_ENTRIES);
+  });
+});
+
+describe("verification limits", () => {
+  const proof = decode(iavlExistLeft);
+  const args = [
+    proof,
+    iavlSpec,
+    fromHex(iavlExistLeft.root),
+    fromHex(iavlExistLeft.key),
+    fromHex(iavlExistLeft.value),
+  ] as const;
+
+  it("reports exceeded limits as failures", async () => {
+    expect(verifyMembershipDetailedSync(...args)).toEqual({ ok: true });
+    const limits = { maxPathDepth: proof.exist!.path.length - 1 };
+    expect(verifyMembershipDetailedSync(...args, { limits })).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.PATH_TOO_DEEP,
+    });
+    expect(await verifyMembershipDetailed(...args, { limits })).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.PATH_TOO_DEEP,
+    });
+  });
+
+  it("reports invalid lookup indexes as failures", () => {
+    const { entries, lookupInners } = compress(
+      batch(iavlExistLeft),
+    ).compressed!;
+    const bad = {
+      compressed: {
+        lookupInners,
+        entries: [{ exist: { ...entries[0].exist!, path: [99] } }],
+      },
+    };
+    const [, spec, root, key, value] = args;
+    expect(
+      verifyMembershipDetailedSync(bad, spec, root, key, value),
+    ).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.INVALID_LOOKUP_INDEX,
+    });
+  });
+
+  it("applies to webcat files", () => {
+    expect(verifyWebcatProofSync(leavesData)).not.toBe(false);
+    expect(
+      verifyWebcatProofSync(leavesData, { limits: { maxBatchEntries: 1 } }),
+    ).toBe(false);
+    expect(
+      verifyWebcatProofSync(leavesData, { limits: { maxProofBytes: 64 } }),
+    ).toBe(false);
+    expect(
+      verifyWebcatProofSync(leavesData, { limits: { maxValueLength: 1 } }),
+    ).toBe(false);
+  });
+});
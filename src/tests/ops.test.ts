@@ -1,4 +1,14 @@
-import { applyInner, applyLeaf, doHash } from "./../ops";
+import {
+  applyInner,
+  applyInnerSync,
+  applyLeaf,
+  applyLeafSync,
+  doHash,
+  doHashSync,
+  encodeFixed32Big,
+  encodeFixed64Big,
+  encodeFixed64Little,
+} from "./../ops";
 import { fromHex, toAscii } from "./testhelpers";
 import {
   HashOp,
@@ -35,10 +45,129 @@ describe("doHash", () => {
     );
   });
 
+  it("sha512 hashes food", async () => {
+    // echo -n food | sha512sum
+    const hash = await doHash(HashOp.SHA512, toAscii("food"));
+    expect(hash).toEqual(
+      fromHex(
+        "c235548cfe84fc87678ff04c9134e060cdcd7512d09ed726192151a995541ed8db9fda5204e72e7ac268214c322c17787c70530513c59faede52b7dd9ce64331",
+      ),
+    );
+  });
+
+  it("sha512_256 hashes food", async () => {
+    // echo -n food | openssl dgst -sha512-256
+    const hash = await doHash(HashOp.SHA512_256, toAscii("food"));
+    expect(hash).toEqual(
+      fromHex(
+        "5b3a452a6acbf1fc1e553a40c501585d5bd3cca176d562e0a0e19a3c43804e88",
+      ),
+    );
+  });
+
+  it("keccak256 hashes food", async () => {
+    // echo -n food | keccak-256sum
+    const hash = await doHash(HashOp.KECCAK256, toAscii("food"));
+    expect(hash).toEqual(
+      fromHex(
+        "a471c7c90860799b1facb54795f0a93d821fb727241025770865602471b765a8",
+      ),
+    );
+  });
+
+  it("ripemd160 hashes food", async () => {
+    // echo -n food | openssl dgst -ripemd160
+    const hash = await doHash(HashOp.RIPEMD160, toAscii("food"));
+    expect(hash).toEqual(fromHex("b1ab9988c7c7c5ec4b2b291adfeeee10e77cdd46"));
+  });
+
+  it("bitcoin hashes food", async () => {
+    // echo -n food | sha256sum | xxd -r -p | openssl dgst -ripemd160
+    const hash = await doHash(HashOp.BITCOIN, toAscii("food"));
+    expect(hash).toEqual(fromHex("0bcb587dfb4fc10b36d57f2bba1878f139b75d24"));
+  });
+
+  it("blake2b_512 hashes food", async () => {
+    // echo -n food | b2sum
+    const hash = await doHash(HashOp.BLAKE2B_512, toAscii("food"));
+    expect(hash).toEqual(
+      fromHex(
+        "b1f115361afc179415d93d4f58dc2fc7d8fa434192d7cb9b65fca592f6aa904103d1f12b28655c2355478e10908ab002c418dc52a4367d8e645309cd25e3a504",
+      ),
+    );
+  });
+
+  it("blake2s_256 hashes food", async () => {
+    // echo -n food | openssl dgst -blake2s256
+    const hash = await doHash(HashOp.BLAKE2S_256, toAscii("food"));
+    expect(hash).toEqual(
+      fromHex(
+        "5a1ec796f11f3dfc7e8ca5de13828edf2e910eb7dd41caaac356a4acbefb1758",
+      ),
+    );
+  });
+
+  it("blake3 hashes food", async () => {
+    // echo -n food | b3sum
+    const hash = await doHash(HashOp.BLAKE3, toAscii("food"));
+    expect(hash).toEqual(
+      fromHex(
+        "f775a8ccf8cb78cd1c63ade4e9802de4ead836b36cea35242accf31d2c6a3697",
+      ),
+    );
+  });
+
+  it("hashes inputs spanning many blocks", async () => {
+    // printf 'a%.0s' {1..3000} | <tool>
+    const preimage = toAscii("a".repeat(3000));
+    const expected: readonly [HashOp, string][] = [
+      [
+        HashOp.SHA512,
+        "2e320b9a1dad1f25a35115168d21c36b0ed60efc938ed3e842c5ad71e22cf9685d3d634b94f38348690385ed0ff9705ad31bf510d9e20efeca5e28de514d1d97",
+      ],
+      [
+        HashOp.SHA512_256,
+        "36bfbefbe3d77d0baad2138e6960fb1201fe176682de56a6f8f67ea5256bb84f",
+      ],
+      [
+        HashOp.KECCAK256,
+        "04c40679a93ac3e72becfce9c7c15c9729fd02484d559a8852dd2a4668d0db8b",
+      ],
+      [HashOp.RIPEMD160, "307fdc02d95b778222877b83b96772dcd575e0ff"],
+      [HashOp.BITCOIN, "39271050ccb08c55bf096d12743de8d08f38c080"],
+      [
+        HashOp.BLAKE2B_512,
+        "1bc790515752bdd36ff61ee3f500c0d44840a07ec1516dadecd7255d47ae4bf10c20575b18bd74f34e62508185b8494e23a440491fb5ba685253816ab246c390",
+      ],
+      [
+        HashOp.BLAKE2S_256,
+        "937a0b67fca84ec93bc8f07c3b2906369403c2c08da6200ec75f085d5e5ad33e",
+      ],
+      [
+        HashOp.BLAKE3,
+        "a012abdd339b966bfbf116187ba42db7a6aea0ca9d47219b0f88efdf99cd1b2e",
+      ],
+    ];
+    for (const [hashOp, digest] of expected) {
+      await expect(doHash(hashOp, preimage)).resolves.toEqual(fromHex(digest));
+    }
+  });
+
+  it("hashes synchronously", () => {
+    // echo -n food | sha256sum
+    expect(doHashSync(HashOp.SHA256, toAscii("food"))).toEqual(
+      fromHex(
+        "c1f026582fe6e8cb620d0c85a72fe421ddded756662a8ec00ed4c297ad10676b",
+      ),
+    );
+    expect(() => doHashSync(HashOp.NO_HASH, toAscii("food"))).toThrow();
+  });
+
   it("rejects unsupported hash operations", async () => {
-    await expect(doHash(HashOp.SHA512, toAscii("food"))).rejects.toThrow();
-    await expect(doHash(HashOp.RIPEMD160, toAscii("food"))).rejects.toThrow();
-    await expect(doHash(HashOp.BLAKE3, toAscii("food"))).rejects.toThrow();
+    await expect(doHash(HashOp.NO_HASH, toAscii("food"))).rejects.toThrow();
+    await expect(
+      doHash(HashOp.UNRECOGNIZED, toAscii("food")),
+    ).rejects.toThrow();
   });
 });
 
@@ -95,6 +224,79 @@ describe("applyLeaf", () => {
     await expect(applyLeaf(op, key, value)).resolves.toEqual(expected);
   });
 
+  it("hashes with length prefix (fixed 32-bit big-endian encoding)", async () => {
+    const op = leaf({
+      hash: HashOp.SHA256,
+      length: LengthOp.FIXED32_BIG,
+    });
+    const key = toAscii("food"); // 00000004666f6f64
+    const value = toAscii("some longer text"); // 00000010736f6d65206c6f6e6765722074657874
+    // echo -n 00000004666f6f6400000010736f6d65206c6f6e6765722074657874 | xxd -r -p | sha256sum
+    const expected = fromHex(
+      "dda292a398d880febc8b93f618dfbde7c5628a90f580a8614a44c7ed66ee8ea0",
+    );
+    await expect(applyLeaf(op, key, value)).resolves.toEqual(expected);
+  });
+
+  it("hashes with length prefix (fixed 64-bit big-endian encoding)", async () => {
+    const op = leaf({
+      hash: HashOp.SHA256,
+      length: LengthOp.FIXED64_BIG,
+    });
+    const key = toAscii("food"); // 0000000000000004666f6f64
+    const value = toAscii("some longer text"); // 0000000000000010736f6d65206c6f6e6765722074657874
+    // echo -n 0000000000000004666f6f640000000000000010736f6d65206c6f6e6765722074657874 | xxd -r -p | sha256sum
+    const expected = fromHex(
+      "31d9aa6931a9073b71f0fd307955a46beb70e18a58c92eb7535d613df593bc0a",
+    );
+    await expect(applyLeaf(op, key, value)).resolves.toEqual(expected);
+  });
+
+  it("hashes with length prefix (fixed 64-bit little-endian encoding)", async () => {
+    const op = leaf({
+      hash: HashOp.SHA256,
+      length: LengthOp.FIXED64_LITTLE,
+    });
+    const key = toAscii("food"); // 0400000000000000666f6f64
+    const value = toAscii("some longer text"); // 1000000000000000736f6d65206c6f6e6765722074657874
+    // echo -n 0400000000000000666f6f641000000000000000736f6d65206c6f6e6765722074657874 | xxd -r -p | sha256sum
+    const expected = fromHex(
+      "4dadaffb035c875fb93b3e404aa1af4a8b64d86a786bc04f144b3aaffa984ffe",
+    );
+    await expect(applyLeaf(op, key, value)).resolves.toEqual(expected);
+  });
+
+  it("hashes with length prefix (rlp encoding)", async () => {
+    const op = leaf({
+      hash: HashOp.SHA256,
+      length: LengthOp.VAR_RLP,
+    });
+    const key = toAscii("food"); // 84666f6f64
+    const value = toAscii("some longer text"); // 90736f6d65206c6f6e6765722074657874
+    // echo -n 84666f6f6490736f6d65206c6f6e6765722074657874 | xxd -r -p | sha256sum
+    const expected = fromHex(
+      "f5b65268a678887eec007b6addcdcc236e6d65940902663a5d42282e8d20e659",
+    );
+    await expect(applyLeaf(op, key, value)).resolves.toEqual(expected);
+  });
+
+  it("hashes with length prefix (rlp encoding of single bytes and long strings)", async () => {
+    const op = leaf({
+      hash: HashOp.SHA256,
+      length: LengthOp.VAR_RLP,
+    });
+    // a single byte below 0x80 is its own rlp encoding
+    const key = toAscii("a"); // 61
+    // 62 bytes, longer than the 55 byte short form
+    const value = toAscii(
+      "this value is definitely longer than fifty-five bytes in total",
+    ); // b83e74686973...
+    const expected = fromHex(
+      "104a5cf4430f22f81571382eec6e50c9ba14ebe356e843b0bc0ff6c4e116876b",
+    );
+    await expect(applyLeaf(op, key, value)).resolves.toEqual(expected);
+  });
+
   it("hashes with prehash and length prefix", async () => {
     const op = leaf({
       hash: HashOp.SHA256,
@@ -111,6 +313,36 @@ describe("applyLeaf", () => {
     await expect(applyLeaf(op, key, value)).resolves.toEqual(expected);
   });
 
+  it("hashes with keccak prehash and blake3 leaf hash", async () => {
+    const op = leaf({
+      hash: HashOp.BLAKE3,
+      length: LengthOp.VAR_PROTO,
+      prehashValue: HashOp.KECCAK256,
+    });
+    const key = toAscii("food"); // 04666f6f64
+    // echo -n yet another long string | keccak-256sum
+    const value = toAscii("yet another long string"); // 200aa53020be109f94683274f35501ad146af4b69e3d5551c66ef571f69eaad433
+    // echo -n 04666f6f64200aa53020be109f94683274f35501ad146af4b69e3d5551c66ef571f69eaad433 | xxd -r -p | b3sum
+    const expected = fromHex(
+      "64c2e34074e5008c109ed1b0843f0fdd9c8ac2792548d779ab249f6fe24e82d8",
+    );
+    await expect(applyLeaf(op, key, value)).resolves.toEqual(expected);
+  });
+
+  it("hashes synchronously", () => {
+    const op = leaf({
+      hash: HashOp.SHA256,
+      length: LengthOp.VAR_PROTO,
+    });
+    const expected = fromHex(
+      "b68f5d298e915ae1753dd333da1f9cf605411a5f2e12516be6758f365e6db265",
+    );
+    expect(
+      applyLeafSync(op, toAscii("food"), toAscii("some longer text")),
+    ).toEqual(expected);
+    expect(() => applyLeafSync(op, toAscii("food"), toAscii(""))).toThrow();
+  });
+
   it("requires key", async () => {
     const op = leaf({
       hash: HashOp.SHA256,
@@ -145,6 +377,20 @@ describe("applyInner", () => {
     await expect(applyInner(op, child)).resolves.toEqual(expected);
   });
 
+  it("hash child with keccak256", async () => {
+    const op = inner({
+      hash: HashOp.KECCAK256,
+      prefix: fromHex("0123456789"),
+      suffix: fromHex("deadbeef"),
+    });
+    const child = fromHex("00cafe00");
+    // echo -n 012345678900cafe00deadbeef | xxd -r -p | keccak-256sum
+    const expected = fromHex(
+      "7a523d2bc6423309345a8f0343e1e3556728b4875ad41cc38d74d1a6583eeed0",
+    );
+    await expect(applyInner(op, child)).resolves.toEqual(expected);
+  });
+
   it("requies child", async () => {
     const op = inner({
       hash: HashOp.SHA256,
@@ -154,6 +400,19 @@ describe("applyInner", () => {
     await expect(applyInner(op, fromHex(""))).rejects.toThrow();
   });
 
+  it("hash child synchronously", () => {
+    const op = inner({
+      hash: HashOp.SHA256,
+      prefix: fromHex("0123456789"),
+      suffix: fromHex("deadbeef"),
+    });
+    const expected = fromHex(
+      "0339f76086684506a6d42a60da4b5a719febd4d96d8b8d85ae92849e3a849a5e",
+    );
+    expect(applyInnerSync(op, fromHex("00cafe00"))).toEqual(expected);
+    expect(() => applyInnerSync(op, fromHex(""))).toThrow();
+  });
+
   it("hash child with only prefix", async () => {
     const op = inner({
       hash: HashOp.SHA256,
@@ -180,3 +439,22 @@ describe("applyInner", () => {
     await expect(applyInner(op, child)).resolves.toEqual(expected);
   });
 });
+
+describe("length encoding", () => {
+  it("encodes lengths beyond 32 bits in 64-bit prefixes", () => {
+    const n = 2 ** 40 + 5;
+    expect(encodeFixed64Big(n)).toEqual(fromHex("0000010000000005"));
+    expect(encodeFixed64Little(n)).toEqual(fromHex("0500000000010000"));
+  });
+
+  it("encodes the largest safe integer", () => {
+    const n = Number.MAX_SAFE_INTEGER;
+    expect(encodeFixed64Big(n)).toEqual(fromHex("001fffffffffffff"));
+    expect(encodeFixed64Little(n)).toEqual(fromHex("ffffffffffff1f00"));
+  });
+
+  it("rejects lengths that overflow 32-bit prefixes", () => {
+    expect(encodeFixed32Big(2 ** 32 - 1)).toEqual(fromHex("ffffffff"));
+    expect(() => encodeFixed32Big(2 ** 32)).toThrow();
+  });
+});
@@ -0,0 +1,117 @@
+import { VerificationError } from "./../errors";
+import { iavlSpec, smtSpec, tendermintSpec } from "./../proofs";
+import { ProofSpec } from "./../proto/cosmos/ics23/v1/proofs";
+import {
+  getSpec,
+  hasSpec,
+  registerSpec,
+  resolveSpec,
+  specFromBinary,
+  specFromJson,
+  specName,
+  specNames,
+  specToBinary,
+  specToJson,
+  unregisterSpec,
+} from "./../registry";
+import { webcatSpec } from "./../webcat";
+
+import { describe, it, expect } from "vitest";
+
+const customSpec: ProofSpec = {
+  ...tendermintSpec,
+  maxDepth: 64,
+};
+
+describe("spec registry", () => {
+  it("knows the built-in specs", () => {
+    expect(specNames()).toEqual(["iavl", "tendermint", "smt", "webcat"]);
+    expect(getSpec("iavl")).toBe(iavlSpec);
+    expect(getSpec("tendermint")).toBe(tendermintSpec);
+    expect(getSpec("smt")).toBe(smtSpec);
+    expect(getSpec("webcat")).toBe(webcatSpec);
+    expect(specName(webcatSpec)).toEqual("webcat");
+    expect(hasSpec("unknown")).toBe(false);
+    expect(() => getSpec("unknown")).toThrow("Unknown spec unknown");
+  });
+
+  it("registers and unregisters custom specs", () => {
+    registerSpec("custom", customSpec);
+    try {
+      expect(hasSpec("custom")).toBe(true);
+      expect(getSpec("custom")).toBe(customSpec);
+      expect(specName(customSpec)).toEqual("custom");
+      expect(specNames()).toContain("custom");
+      expect(() => registerSpec("custom", iavlSpec)).toThrow(
+        "already registered",
+      );
+    } finally {
+      expect(unregisterSpec("custom")).toBe(true);
+    }
+    expect(hasSpec("custom")).toBe(false);
+    expect(unregisterSpec("custom")).toBe(false);
+  });
+
+  it("protects the built-in names", () => {
+    expect(() => registerSpec("iavl", customSpec)).toThrow(
+      "already registered",
+    );
+    expect(unregisterSpec("iavl")).toBe(false);
+    expect(getSpec("iavl")).toBe(iavlSpec);
+  });
+
+  it("rejects invalid specs", () => {
+    const invalid = { ...iavlSpec, leafSpec: undefined };
+    expect(() => registerSpec("invalid", invalid)).toThrow(VerificationError);
+    expect(hasSpec("invalid")).toBe(false);
+  });
+});
+
+describe("spec serialization", () => {
+  it("encodes specs in the protobuf JSON mapping", () => {
+    expect(specToJson(iavlSpec)).toEqual({
+      leafSpec: {
+        hash: "SHA256",
+        prehashValue: "SHA256",
+        length: "VAR_PROTO",
+        prefix: "AA==",
+      },
+      innerSpec: {
+        childOrder: [0, 1],
+        childSize: 33,
+        minPrefixLength: 4,
+        maxPrefixLength: 12,
+        hash: "SHA256",
+      },
+      maxDepth: 255,
+    });
+  });
+
+  it("round trips the built-in specs through JSON", () => {
+    for (const spec of [iavlSpec, tendermintSpec, smtSpec, webcatSpec]) {
+      const json = JSON.parse(JSON.stringify(specToJson(spec)));
+      expect(specFromJson(json)).toEqual(spec);
+    }
+  });
+
+  it("round trips the built-in specs through binary", () => {
+    for (const spec of [iavlSpec, tendermintSpec, smtSpec, webcatSpec]) {
+      expect(specFromBinary(specToBinary(spec))).toEqual(spec);
+    }
+  });
+
+  it("rejects invalid imports", () => {
+    expect(() => specFromJson("iavl")).toThrow("Spec JSON must be an object");
+    expect(() => specFromJson({ maxDepth: 10 })).toThrow(VerificationError);
+    const invalid = { ...iavlSpec, innerSpec: undefined };
+    expect(() => specFromBinary(specToBinary(invalid))).toThrow(
+      VerificationError,
+    );
+  });
+
+  it("resolves names and embedded specs", () => {
+    expect(resolveSpec("smt")).toBe(smtSpec);
+    expect(resolveSpec(specToJson(customSpec))).toEqual(customSpec);
+    expect(() => resolveSpec("unknown")).toThrow("Unknown spec unknown");
+  });
+});
@@ -0,0 +1,116 @@
+import { verifyMembership, verifyNonMembership } from "./../ics23";
+import { tendermintSpec } from "./../proofs";
+import { hashFromByteSlices, SimpleMerkleTree } from "./../simple";
+import { fromHex, toAscii } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+const keyFor = (i: number): Uint8Array => toAscii(`key ${i}`);
+const valueFor = (i: number): Uint8Array => toAscii(`value ${i}`);
+
+const buildTree = (count: number): SimpleMerkleTree =>
+  new SimpleMerkleTree(
+    Array.from({ length: count }, (_, i) => [keyFor(i), valueFor(i)] as const),
+  );
+
+describe("hashFromByteSlices", () => {
+  // test cases of crypto/merkle in CometBFT
+  it("matches CometBFT", () => {
+    expect(hashFromByteSlices([])).toEqual(
+      fromHex(
+        "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+      ),
+    );
+    expect(hashFromByteSlices([Uint8Array.from([1, 2, 3])])).toEqual(
+      fromHex(
+        "054edec1d0211f624fed0cbca9d4f9400b0e491c43742af2c5b0abebf0c990d8",
+      ),
+    );
+    expect(hashFromByteSlices([new Uint8Array()])).toEqual(
+      fromHex(
+        "6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d",
+      ),
+    );
+    expect(
+      hashFromByteSlices([
+        Uint8Array.from([1, 2, 3]),
+        Uint8Array.from([4, 5, 6]),
+      ]),
+    ).toEqual(
+      fromHex(
+        "82e6cfce00453804379b53962939eaa7906b39904be0813fcadd31b100773c4b",
+      ),
+    );
+    expect(
+      hashFromByteSlices([
+        Uint8Array.from([1, 2]),
+        Uint8Array.from([3, 4]),
+        Uint8Array.from([5, 6]),
+        Uint8Array.from([7, 8]),
+        Uint8Array.from([9, 10]),
+      ]),
+    ).toEqual(
+      fromHex(
+        "f326493eceab4f2d9ffbc78c59432a0a005d6ea98392045c74df5d14a113be18",
+      ),
+    );
+  });
+});
+
+describe("SimpleMerkleTree", () => {
+  it("sorts its entries", () => {
+    const entries = [
+      [toAscii("b"), toAscii("2")],
+      [toAscii("a"), toAscii("1")],
+    ] as const;
+    const tree = new SimpleMerkleTree(entries);
+    const sorted = new SimpleMerkleTree([...entries].reverse());
+    expect(tree.rootHash()).toEqual(sorted.rootHash());
+    expect(tree.get(toAscii("a"))).toEqual(toAscii("1"));
+    expect(tree.has(toAscii("c"))).toBe(false);
+    expect(tree.size).toBe(2);
+  });
+
+  it("rejects duplicate keys", () => {
+    expect(
+      () =>
+        new SimpleMerkleTree([
+          [toAscii("a"), toAscii("1")],
+          [toAscii("a"), toAscii("2")],
+        ]),
+    ).toThrow();
+  });
+
+  it("produces existence proofs", async () => {
+    for (const count of [1, 2, 3, 7, 33]) {
+      const tree = buildTree(count);
+      const root = tree.rootHash();
+      for (let i = 0; i < count; i++) {
+        const proof = tree.getMembershipProof(keyFor(i));
+        await expect(
+          verifyMembership(proof, tendermintSpec, root, keyFor(i), valueFor(i)),
+        ).resolves.toBe(true);
+      }
+      expect(() => tree.getMembershipProof(keyFor(count))).toThrow();
+    }
+  });
+
+  it("produces non-existence proofs", async () => {
+    for (const count of [1, 2, 3, 7, 33]) {
+      const tree = buildTree(count);
+      const root = tree.rootHash();
+      const missing = [
+        toAscii("a"),
+        toAscii("z"),
+        ...Array.from({ length: count }, (_, i) => toAscii(`key ${i}a`)),
+      ];
+      for (const key of missing) {
+        const proof = tree.getNonMembershipProof(key);
+        await expect(
+          verifyNonMembership(proof, tendermintSpec, root, key),
+        ).resolves.toBe(true);
+      }
+      expect(() => tree.getNonMembershipProof(keyFor(0))).toThrow();
+    }
+  });
+});
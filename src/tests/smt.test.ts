@@ -0,0 +1,87 @@
+import { sha256 } from "./../hashes";
+import { verifyMembership, verifyNonMembership } from "./../ics23";
+import { smtSpec } from "./../proofs";
+import { SparseMerkleTree } from "./../smt";
+import { toAscii } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+const keyFor = (i: number): Uint8Array => toAscii(`key ${i}`);
+const valueFor = (i: number): Uint8Array => toAscii(`value ${i}`);
+
+const buildTree = (count: number, order = (i: number) => i) => {
+  const tree = new SparseMerkleTree();
+  for (let i = 0; i < count; i++) {
+    tree.set(keyFor(order(i)), valueFor(order(i)));
+  }
+  return tree;
+};
+
+describe("SparseMerkleTree", () => {
+  it("hashes an empty tree to the placeholder", () => {
+    const tree = new SparseMerkleTree();
+    expect(tree.rootHash()).toEqual(new Uint8Array(32));
+
+    tree.set(keyFor(0), valueFor(0));
+    expect(tree.remove(keyFor(0))).toEqual(valueFor(0));
+    expect(tree.rootHash()).toEqual(new Uint8Array(32));
+  });
+
+  it("hashes a single leaf without inner nodes", () => {
+    const tree = buildTree(1);
+    const leaf = sha256(
+      new Uint8Array([0, ...sha256(keyFor(0)), ...sha256(valueFor(0))]),
+    );
+    expect(tree.rootHash()).toEqual(leaf);
+    expect(tree.getMembershipProof(keyFor(0)).exist!.path).toEqual([]);
+  });
+
+  it("does not depend on insertion order", () => {
+    const forward = buildTree(40);
+    const backward = buildTree(40, (i) => 39 - i);
+    expect(backward.rootHash()).toEqual(forward.rootHash());
+  });
+
+  it("updates and removes keys", () => {
+    const tree = buildTree(10);
+    const root = tree.rootHash();
+
+    expect(tree.set(keyFor(3), toAscii("changed"))).toBe(true);
+    expect(tree.get(keyFor(3))).toEqual(toAscii("changed"));
+    expect(tree.rootHash()).not.toEqual(root);
+    tree.set(keyFor(3), valueFor(3));
+    expect(tree.rootHash()).toEqual(root);
+
+    tree.set(keyFor(10), valueFor(10));
+    expect(tree.remove(keyFor(10))).toEqual(valueFor(10));
+    expect(tree.remove(keyFor(10))).toBeUndefined();
+    expect(tree.rootHash()).toEqual(root);
+    expect(tree.size).toBe(10);
+  });
+
+  it("produces existence proofs", async () => {
+    const tree = buildTree(100);
+    const root = tree.rootHash();
+    for (let i = 0; i < 100; i++) {
+      const proof = tree.getMembershipProof(keyFor(i));
+      await expect(
+        verifyMembership(proof, smtSpec, root, keyFor(i), valueFor(i)),
+      ).resolves.toBe(true);
+    }
+    expect(() => tree.getMembershipProof(keyFor(100))).toThrow();
+  });
+
+  it("produces non-existence proofs", async () => {
+    for (const count of [1, 2, 100]) {
+      const tree = buildTree(count);
+      const root = tree.rootHash();
+      for (let i = 100; i < 150; i++) {
+        const proof = tree.getNonMembershipProof(keyFor(i));
+        await expect(
+          verifyNonMembership(proof, smtSpec, root, keyFor(i)),
+        ).resolves.toBe(true);
+      }
+      expect(() => tree.getNonMembershipProof(keyFor(0))).toThrow();
+    }
+  });
+});
@@ -0,0 +1,240 @@
+import { headerHash, LightBlock } from "./../cometbft";
+import { VerificationErrorCode } from "./../errors";
+import {
+  keyValueSnapshotStorage,
+  MemorySnapshotStorage,
+  WebcatAnchor,
+  WebcatSnapshotStore,
+} from "./../snapshot";
+import { createWebcatLeavesFile, fromHex, WebcatLeaf } from "./../webcat";
+import { makeLightBlock, makeValidators, TestValidator } from "./chainhelpers";
+
+import { beforeAll, describe, it, expect } from "vitest";
+
+const leavesV1: WebcatLeaf[] = [["example.com", "01"]];
+const leavesV2: WebcatLeaf[] = [
+  ["example.com", "02"],
+  ["example.org", "03"],
+];
+
+const fileV1 = createWebcatLeavesFile(leavesV1, { blockHeight: 10 });
+const fileV2 = createWebcatLeavesFile(leavesV2, { blockHeight: 20 });
+
+let validators: TestValidator[];
+let trusted: LightBlock;
+let anchorV1: WebcatAnchor;
+let anchorV2: WebcatAnchor;
+
+beforeAll(async () => {
+  validators = await makeValidators([10, 10, 10]);
+  trusted = await makeLightBlock({ height: 1, validators });
+  anchorV1 = await pin(fileV1);
+  anchorV2 = await pin(fileV2);
+});
+
+// blockAt returns the block at height committing to appHash
+function blockAt(height: number, appHash: string): Promise<LightBlock> {
+  return makeLightBlock({ height, validators, appHash: fromHex(appHash) });
+}
+
+// pin anchors file with its header and block hash, as if both came from a
+// source the client trusts
+async function pin(
+  file: { block_height: number; proof: { app_hash: string } },
+  height = file.block_height,
+): Promise<WebcatAnchor> {
+  const { header } = (await blockAt(height, file.proof.app_hash)).signedHeader;
+  return { header, blockHash: headerHash(header) };
+}
+
+// mapStorage is a KeyValueStorage like a file or IndexedDB would back
+function mapStorage(map = new Map<string, string>()) {
+  return {
+    map,
+    async get(key: string) {
+      return map.get(key);
+    },
+    async set(key: string, value: string) {
+      map.set(key, value);
+    },
+  };
+}
+
+describe("WebcatSnapshotStore", () => {
+  it("accepts verified snapshots at increasing heights", async () => {
+    const store = new WebcatSnapshotStore();
+    expect(await store.current()).toBeUndefined();
+
+    expect(await store.accept(fileV1, anchorV1)).toEqual({ ok: true });
+    expect(await store.leaves()).toEqual(leavesV1);
+    expect(await store.accept(fileV2, anchorV2)).toEqual({ ok: true });
+    expect(await store.current()).toEqual({
+      blockHeight: 20,
+      appHash: fileV2.proof.app_hash,
+      canonicalRootHash: fileV2.proof.canonical_root_hash,
+      leaves: leavesV2,
+    });
+  });
+
+  it("rejects rollbacks", async () => {
+    const store = new WebcatSnapshotStore();
+    await store.accept(fileV2, anchorV2);
+    const result = await store.accept(fileV1, anchorV1);
+    expect(result).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.ROLLBACK,
+      detail: { expected: 20, actual: 10 },
+    });
+    expect(await store.leaves()).toEqual(leavesV2);
+  });
+
+  it("rejects old files claiming a later height", async () => {
+    const store = new WebcatSnapshotStore();
+    await store.accept(fileV2, anchorV2);
+
+    const replayed = { ...fileV1, block_height: 30 };
+    // the block at height 30 commits to another app hash
+    const fileV3 = createWebcatLeavesFile(leavesV2, { blockHeight: 30 });
+    const { header } = (await blockAt(30, fileV3.proof.app_hash)).signedHeader;
+    const blockHash = headerHash(header);
+    expect(await store.accept(replayed, { header, blockHash })).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.APP_HASH_MISMATCH,
+    });
+    // a header with the old app hash has another block hash
+    const forged = (await blockAt(30, fileV1.proof.app_hash)).signedHeader;
+    expect(
+      await store.accept(replayed, { header: forged.header, blockHash }),
+    ).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.HEADER_MISMATCH,
+    });
+    // the block that does commit to it is at height 10
+    expect(await store.accept(replayed, anchorV1)).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.HEADER_MISMATCH,
+    });
+    expect(await store.current()).toMatchObject({
+      blockHeight: 20,
+      leaves: leavesV2,
+    });
+
+    // real updates still go through
+    const update = createWebcatLeavesFile(leavesV1, { blockHeight: 25 });
+    expect(await store.accept(update, await pin(update))).toEqual({ ok: true });
+  });
+
+  it("anchors files with a light client", async () => {
+    const store = new WebcatSnapshotStore();
+    const lightClient = {
+      trustingPeriod: 24 * 3600,
+      now: new Date("2024-01-01T01:00:00Z"),
+    };
+    const anchor = await blockAt(20, fileV2.proof.app_hash);
+    expect(
+      await store.accept(fileV2, { trusted, blocks: [anchor], lightClient }),
+    ).toEqual({ ok: true });
+
+    const replayed = { ...fileV1, block_height: 30 };
+    const later = await blockAt(30, fileV2.proof.app_hash);
+    expect(
+      await store.accept(replayed, { trusted, blocks: [later], lightClient }),
+    ).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.APP_HASH_MISMATCH,
+    });
+    expect((await store.current())?.blockHeight).toEqual(20);
+  });
+
+  it("refuses files without an anchor", async () => {
+    const store = new WebcatSnapshotStore();
+    const accept = store.accept as (data: unknown) => Promise<unknown>;
+    await expect(accept.call(store, fileV1)).rejects.toThrow(
+      "without an anchor",
+    );
+  });
+
+  it("accepts the current snapshot again but no conflicting one", async () => {
+    const store = new WebcatSnapshotStore();
+    await store.accept(fileV1, anchorV1);
+    expect(await store.accept(fileV1, anchorV1)).toEqual({ ok: true });
+
+    const conflicting = createWebcatLeavesFile(leavesV2, { blockHeight: 10 });
+    expect(
+      await store.accept(conflicting, await pin(conflicting)),
+    ).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.SNAPSHOT_CONFLICT,
+      detail: { field: "appHash" },
+    });
+    expect(await store.leaves()).toEqual(leavesV1);
+  });
+
+  it("rejects snapshots that don't verify", async () => {
+    const store = new WebcatSnapshotStore();
+    const tampered = { ...fileV2, leaves: leavesV1 };
+    expect(await store.accept(tampered, await pin(tampered))).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.ROOT_MISMATCH,
+    });
+    expect(await store.current()).toBeUndefined();
+  });
+
+  it("serializes concurrent accepts", async () => {
+    const store = new WebcatSnapshotStore();
+    const results = await Promise.all([
+      store.accept(fileV2, anchorV2),
+      store.accept(fileV1, anchorV1),
+    ]);
+    expect(results.map(({ ok }) => ok)).toEqual([true, false]);
+    expect((await store.current())?.blockHeight).toEqual(20);
+  });
+
+  it("keeps storage errors from blocking later accepts", async () => {
+    const storage = new MemorySnapshotStorage();
+    let fail = true;
+    const store = new WebcatSnapshotStore({
+      load: () => storage.load(),
+      save: async (snapshot) => {
+        if (fail) {
+          throw new Error("disk full");
+        }
+        await storage.save(snapshot);
+      },
+    });
+    await expect(store.accept(fileV1, anchorV1)).rejects.toThrow("disk full");
+    fail = false;
+    expect(await store.accept(fileV1, anchorV1)).toEqual({ ok: true });
+  });
+});
+
+describe("keyValueSnapshotStorage", () => {
+  it("persists snapshots across stores", async () => {
+    const storage = mapStorage();
+    await new WebcatSnapshotStore(keyValueSnapshotStorage(storage)).accept(
+      fileV2,
+      anchorV2,
+    );
+    expect([...storage.map.keys()]).toEqual(["webcat-snapshot"]);
+
+    const reopened = new WebcatSnapshotStore(keyValueSnapshotStorage(storage));
+    expect(await reopened.leaves()).toEqual(leavesV2);
+    expect(await reopened.accept(fileV1, anchorV1)).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.ROLLBACK,
+    });
+  });
+
+  it("rejects malformed stored snapshots", async () => {
+    const load = (value: string) =>
+      keyValueSnapshotStorage(mapStorage(new Map([["s", value]])), "s").load();
+    await expect(load("{")).rejects.toThrow("malformed");
+    await expect(load("null")).rejects.toThrow("malformed");
+    await expect(
+      load(JSON.stringify({ blockHeight: "1", leaves: [] })),
+    ).rejects.toThrow("malformed");
+    expect(
+      await keyValueSnapshotStorage(mapStorage(), "s").load(),
+    ).toBeUndefined();
+  });
+});
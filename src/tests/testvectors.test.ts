@@ -20,11 +20,21 @@ import tendermintNonexistRight from "../../testdata/tendermint/nonexist_right.js
 import { compress } from "./../compress";
 import {
   batchVerifyMembership,
+  batchVerifyMembershipSync,
   batchVerifyNonMembership,
+  batchVerifyNonMembershipSync,
   verifyMembership,
+  verifyMembershipSync,
   verifyNonMembership,
+  verifyNonMembershipSync,
 } from "./../ics23";
-import { iavlSpec, smtSpec, tendermintSpec } from "./../proofs";
+import {
+  calculateExistenceRoot,
+  calculateExistenceRootSync,
+  iavlSpec,
+  smtSpec,
+  tendermintSpec,
+} from "./../proofs";
 import { fromHex } from "./testhelpers";
 
 import { describe, it, expect } from "vitest";
@@ -111,6 +121,25 @@ describe("calculateExistenceRoot", () => {
     await validateTestVector(iavlNonexistMiddle, iavlSpec);
   });
 
+  it("should parse smt left", async () => {
+    await validateTestVector(smtExistLeft, smtSpec);
+  });
+  it("should parse smt right", async () => {
+    await validateTestVector(smtExistRight, smtSpec);
+  });
+  it("should parse smt middle", async () => {
+    await validateTestVector(smtExistMiddle, smtSpec);
+  });
+  it("should parse smt left - nonexist", async () => {
+    await validateTestVector(smtNonexistLeft, smtSpec);
+  });
+  it("should parse smt right - nonexist", async () => {
+    await validateTestVector(smtNonexistRight, smtSpec);
+  });
+  it("should parse smt middle - nonexist", async () => {
+    await validateTestVector(smtNonexistMiddle, smtSpec);
+  });
+
   it("should parse tendermint left", async () => {
     await validateTestVector(tendermintExistLeft, tendermintSpec);
   });
@@ -290,3 +319,110 @@ describe("calculateExistenceRoot", () => {
     await validateBatch(proof, smtSpec, data[3]);
   });
 });
+
+describe("sync verification", () => {
+  interface TestVectorJson {
+    readonly root: string;
+    readonly proof: string;
+    readonly key: string;
+    readonly value?: string;
+  }
+
+  const vectors: readonly [string, ProofSpec, readonly TestVectorJson[]][] = [
+    [
+      "iavl",
+      iavlSpec,
+      [
+        iavlExistLeft,
+        iavlExistRight,
+        iavlExistMiddle,
+        iavlNonexistLeft,
+        iavlNonexistRight,
+        iavlNonexistMiddle,
+      ],
+    ],
+    [
+      "tendermint",
+      tendermintSpec,
+      [
+        tendermintExistLeft,
+        tendermintExistRight,
+        tendermintExistMiddle,
+        tendermintNonexistLeft,
+        tendermintNonexistRight,
+        tendermintNonexistMiddle,
+      ],
+    ],
+    [
+      "smt",
+      smtSpec,
+      [
+        smtExistLeft,
+        smtExistRight,
+        smtExistMiddle,
+        smtNonexistLeft,
+        smtNonexistRight,
+        smtNonexistMiddle,
+      ],
+    ],
+  ];
+
+  // flips the last byte, so every verification must fail
+  const tamper = (bytes: Uint8Array): Uint8Array =>
+    Uint8Array.from(bytes, (b, i) => (i === bytes.length - 1 ? b ^ 1 : b));
+
+  for (const [name, spec, group] of vectors) {
+    it(`agrees with async verification on ${name} vectors`, async () => {
+      for (const vector of group) {
+        const proof = CommitmentProof.decode(fromHex(vector.proof));
+        const key = fromHex(vector.key);
+        for (const root of [
+          fromHex(vector.root),
+          tamper(fromHex(vector.root)),
+        ]) {
+          if (vector.value) {
+            const value = fromHex(vector.value);
+            expect(verifyMembershipSync(proof, spec, root, key, value)).toBe(
+              await verifyMembership(proof, spec, root, key, value),
+            );
+            expect(calculateExistenceRootSync(proof.exist!)).toEqual(
+              await calculateExistenceRoot(proof.exist!),
+            );
+          } else {
+            expect(verifyNonMembershipSync(proof, spec, root, key)).toBe(
+              await verifyNonMembership(proof, spec, root, key),
+            );
+          }
+        }
+      }
+    });
+
+    it(`agrees with async verification on ${name} batches`, async () => {
+      const entries: BatchEntry[] = group.map((vector) => {
+        const proof = CommitmentProof.decode(fromHex(vector.proof));
+        return proof.exist
+          ? { exist: proof.exist }
+          : { nonexist: proof.nonexist };
+      });
+      for (const proof of [
+        { batch: { entries } },
+        compress({ batch: { entries } }),
+      ]) {
+        for (const vector of group) {
+          const root = fromHex(vector.root);
+          const key = fromHex(vector.key);
+          if (vector.value) {
+            const items = new Map([[key, fromHex(vector.value)]]);
+            expect(batchVerifyMembershipSync(proof, spec, root, items)).toBe(
+              await batchVerifyMembership(proof, spec, root, items),
+            );
+          } else {
+            expect(batchVerifyNonMembershipSync(proof, spec, root, [key])).toBe(
+              await batchVerifyNonMembership(proof, spec, root, [key]),
+            );
+          }
+        }
+      }
+    });
+  }
+});
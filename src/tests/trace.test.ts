@@ -0,0 +1,184 @@
+import iavlExistLeft from "../../testdata/iavl/exist_left.json";
+import iavlExistRight from "../../testdata/iavl/exist_right.json";
+import iavlNonexistMiddle from "../../testdata/iavl/nonexist_middle.json";
+
+import {
+  verifyBatchSync,
+  verifyMembershipDetailed,
+  verifyNonMembershipSync,
+} from "./../ics23";
+import {
+  calculateExistenceRoot,
+  calculateExistenceRootSync,
+  iavlSpec,
+  verifyExistence,
+  verifyNonExistence,
+} from "./../proofs";
+import {
+  CommitmentProof,
+  HashOp,
+  LengthOp,
+} from "./../proto/cosmos/ics23/v1/proofs";
+import { createTrace, InnerTraceStep, traceToJson } from "./../trace";
+import { fromHex, toAscii } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+describe("verification trace", () => {
+  it("records the preimage parts and output of every step", async () => {
+    const trace = createTrace();
+    await calculateExistenceRoot(
+      {
+        key: toAscii("food"),
+        value: toAscii("some longer text"),
+        leaf: {
+          hash: HashOp.SHA256,
+          prehashKey: HashOp.NO_HASH,
+          prehashValue: HashOp.NO_HASH,
+          length: LengthOp.VAR_PROTO,
+          prefix: new Uint8Array(),
+        },
+        path: [
+          {
+            hash: HashOp.SHA256,
+            prefix: fromHex("deadbeef00cafe00"),
+            suffix: new Uint8Array(),
+          },
+        ],
+      },
+      { trace },
+    );
+
+    expect(traceToJson(trace)).toEqual({
+      steps: [
+        {
+          type: "leaf",
+          prefix: "",
+          // length prefixed "food" and "some longer text"
+          key: "04666f6f64",
+          value: "10736f6d65206c6f6e6765722074657874",
+          output:
+            "b68f5d298e915ae1753dd333da1f9cf605411a5f2e12516be6758f365e6db265",
+        },
+        {
+          type: "inner",
+          depth: 0,
+          prefix: "deadbeef00cafe00",
+          child:
+            "b68f5d298e915ae1753dd333da1f9cf605411a5f2e12516be6758f365e6db265",
+          suffix: "",
+          // echo -n deadbeef00cafe00b68f5d298e915ae1753dd333da1f9cf605411a5f2e12516be6758f365e6db265 | xxd -r -p | sha256sum
+          output:
+            "836ea236a6902a665c2a004c920364f24cad52ded20b1e4f22c3179bfe25b2a9",
+          branch: null,
+        },
+      ],
+    });
+  });
+
+  it("derives branch indexes from the spec", () => {
+    for (const [vector, branch] of [
+      [iavlExistLeft, 0],
+      [iavlExistRight, 1],
+    ] as const) {
+      const proof = CommitmentProof.decode(fromHex(vector.proof)).exist!;
+      const trace = createTrace(iavlSpec);
+      const root = calculateExistenceRootSync(proof, { trace });
+
+      expect(root).toEqual(fromHex(vector.root));
+      const inners = trace.steps.filter(
+        (step): step is InnerTraceStep => step.type === "inner",
+      );
+      expect(inners.length).toBe(proof.path!.length);
+      expect(inners.every((step) => step.branch === branch)).toBe(true);
+      expect(inners[inners.length - 1].output).toEqual(root);
+    }
+  });
+
+  it("shows where a proof diverges", async () => {
+    const proof = CommitmentProof.decode(fromHex(iavlExistLeft.proof)).exist!;
+    const trace = createTrace();
+    await expect(
+      verifyExistence(
+        proof,
+        iavlSpec,
+        new Uint8Array(32),
+        fromHex(iavlExistLeft.key),
+        fromHex(iavlExistLeft.value),
+        { trace },
+      ),
+    ).rejects.toThrow();
+
+    // the verification spec is used even though the trace has none
+    expect(trace.steps.length).toBe(proof.path!.length + 1);
+    expect(trace.steps[1]).toMatchObject({ branch: 0 });
+  });
+
+  it("marks the neighbors of non-existence proofs", async () => {
+    const proof = CommitmentProof.decode(fromHex(iavlNonexistMiddle.proof));
+    const { left, right } = proof.nonexist!;
+    const trace = createTrace();
+    await verifyNonExistence(
+      proof.nonexist!,
+      iavlSpec,
+      fromHex(iavlNonexistMiddle.root),
+      fromHex(iavlNonexistMiddle.key),
+      { trace },
+    );
+
+    const sides = trace.steps.map((step) => step.side);
+    expect(sides).toEqual([
+      ...Array(left!.path!.length + 1).fill("left"),
+      ...Array(right!.path!.length + 1).fill("right"),
+    ]);
+
+    const json = JSON.parse(JSON.stringify(traceToJson(trace)));
+    expect(json.steps[0]).toMatchObject({ type: "leaf", side: "left" });
+    expect(json.steps[json.steps.length - 1].output).toBe(
+      iavlNonexistMiddle.root,
+    );
+  });
+
+  it("records the steps of CommitmentProof verification", async () => {
+    const exist = CommitmentProof.decode(fromHex(iavlExistLeft.proof));
+    const nonexist = CommitmentProof.decode(fromHex(iavlNonexistMiddle.proof));
+    const existSteps = exist.exist!.path!.length + 1;
+    const { left, right } = nonexist.nonexist!;
+    const nonexistSteps = left!.path!.length + right!.path!.length + 2;
+
+    const trace = createTrace();
+    const result = await verifyMembershipDetailed(
+      exist,
+      iavlSpec,
+      fromHex(iavlExistLeft.root),
+      fromHex(iavlExistLeft.key),
+      fromHex(iavlExistLeft.value),
+      { trace },
+    );
+    expect(result).toEqual({ ok: true });
+    expect(trace.steps.length).toBe(existSteps);
+    expect(trace.steps[1]).toMatchObject({ branch: 0 });
+
+    const other = createTrace();
+    expect(
+      verifyNonMembershipSync(
+        nonexist,
+        iavlSpec,
+        fromHex(iavlNonexistMiddle.root),
+        fromHex(iavlNonexistMiddle.key),
+        { trace: other },
+      ),
+    ).toBe(true);
+    expect(other.steps.length).toBe(nonexistSteps);
+
+    const batch = createTrace();
+    verifyBatchSync(
+      nonexist,
+      iavlSpec,
+      fromHex(iavlNonexistMiddle.root),
+      [{ type: "absent", key: fromHex(iavlNonexistMiddle.key) }],
+      { trace: batch },
+    );
+    expect(batch.steps).toEqual(other.steps);
+  });
+});
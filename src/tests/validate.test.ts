@@ -0,0 +1,159 @@
+import iavlExistLeft from "../../testdata/iavl/exist_left.json";
+
+import { VerificationErrorCode } from "./../errors";
+import { verifyMembership, verifyMembershipDetailed } from "./../ics23";
+import {
+  iavlSpec,
+  smtSpec,
+  tendermintSpec,
+  verifyExistence,
+} from "./../proofs";
+import {
+  CommitmentProof,
+  HashOp,
+  LengthOp,
+  ProofSpec,
+} from "./../proto/cosmos/ics23/v1/proofs";
+import { ProofSpecFindingCode, validateProofSpec } from "./../validate";
+import { webcatSpec } from "./../webcat";
+import { fromHex } from "./testhelpers";
+
+import { describe, it, expect } from "vitest";
+
+function withInner(inner: Partial<NonNullable<ProofSpec["innerSpec"]>>) {
+  return { ...iavlSpec, innerSpec: { ...iavlSpec.innerSpec!, ...inner } };
+}
+
+function withLeaf(leaf: Partial<NonNullable<ProofSpec["leafSpec"]>>) {
+  return { ...iavlSpec, leafSpec: { ...iavlSpec.leafSpec!, ...leaf } };
+}
+
+function codes(spec: ProofSpec): ProofSpecFindingCode[] {
+  return validateProofSpec(spec).map(({ code }) => code);
+}
+
+describe("validateProofSpec", () => {
+  it("accepts the built-in specs", () => {
+    for (const spec of [iavlSpec, tendermintSpec, smtSpec, webcatSpec]) {
+      expect(validateProofSpec(spec)).toEqual([]);
+    }
+  });
+
+  it("reports missing leaf and inner specs", () => {
+    expect(codes({ ...iavlSpec, leafSpec: undefined })).toEqual([
+      ProofSpecFindingCode.MISSING_LEAF_SPEC,
+    ]);
+    expect(codes({ ...iavlSpec, innerSpec: undefined })).toEqual([
+      ProofSpecFindingCode.MISSING_INNER_SPEC,
+    ]);
+  });
+
+  it("reports invalid hash and length ops", () => {
+    expect(codes(withLeaf({ hash: HashOp.NO_HASH }))).toEqual([
+      ProofSpecFindingCode.INVALID_HASH_OP,
+    ]);
+    expect(codes(withLeaf({ prehashValue: 42 as HashOp }))).toEqual([
+      ProofSpecFindingCode.INVALID_HASH_OP,
+    ]);
+    expect(codes(withLeaf({ length: LengthOp.UNRECOGNIZED }))).toEqual([
+      ProofSpecFindingCode.INVALID_LENGTH_OP,
+    ]);
+    expect(codes(withInner({ hash: HashOp.UNRECOGNIZED }))).toEqual([
+      ProofSpecFindingCode.INVALID_HASH_OP,
+    ]);
+  });
+
+  it("reports a broken child order", () => {
+    expect(codes(withInner({ childOrder: [0, 2] }))).toEqual([
+      ProofSpecFindingCode.CHILD_ORDER_NOT_PERMUTATION,
+    ]);
+    expect(codes(withInner({ childOrder: [0] }))).toEqual([
+      ProofSpecFindingCode.TOO_FEW_CHILDREN,
+    ]);
+  });
+
+  it("reports inconsistent sizes", () => {
+    expect(codes(withInner({ childSize: 0 }))).toEqual([
+      ProofSpecFindingCode.INVALID_CHILD_SIZE,
+    ]);
+    expect(
+      codes(withInner({ minPrefixLength: 13, maxPrefixLength: 4 })),
+    ).toEqual([ProofSpecFindingCode.INVALID_PREFIX_LENGTHS]);
+    expect(codes(withInner({ emptyChild: new Uint8Array(31) }))).toEqual([
+      ProofSpecFindingCode.EMPTY_CHILD_SIZE_MISMATCH,
+    ]);
+    expect(codes({ ...iavlSpec, minDepth: 5, maxDepth: 2 })).toEqual([
+      ProofSpecFindingCode.INVALID_DEPTH,
+    ]);
+  });
+
+  it("reports prehashed comparison without a prehash", () => {
+    expect(
+      codes({
+        ...smtSpec,
+        leafSpec: { ...smtSpec.leafSpec!, prehashKey: HashOp.NO_HASH },
+      }),
+    ).toEqual([ProofSpecFindingCode.PREHASH_KEY_MISSING]);
+  });
+
+  it("warns about leaves without a prefix", () => {
+    const findings = validateProofSpec(withLeaf({ prefix: new Uint8Array() }));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].severity).toEqual("warning");
+    expect(findings[0].code).toEqual(ProofSpecFindingCode.NO_DOMAIN_SEPARATION);
+    expect(findings[0].field).toEqual("leafSpec.prefix");
+  });
+});
+
+describe("validateSpec option", () => {
+  const proof = CommitmentProof.decode(fromHex(iavlExistLeft.proof));
+  const root = fromHex(iavlExistLeft.root);
+  const key = fromHex(iavlExistLeft.key);
+  const value = fromHex(iavlExistLeft.value);
+  // childSize is only checked by validation, so proofs still verify without it
+  const broken = withInner({ childSize: -1 });
+
+  it("is off by default", async () => {
+    expect(await verifyMembership(proof, broken, root, key, value)).toBe(true);
+  });
+
+  it("rejects malformed specs up front", async () => {
+    const options = { validateSpec: true };
+    expect(
+      await verifyMembership(proof, broken, root, key, value, options),
+    ).toBe(false);
+    expect(
+      await verifyMembershipDetailed(proof, broken, root, key, value, options),
+    ).toEqual({
+      ok: false,
+      code: VerificationErrorCode.INVALID_SPEC,
+      detail: {
+        field: "innerSpec.childSize",
+        message: "childSize must be positive, got -1",
+      },
+    });
+    await expect(
+      verifyExistence(proof.exist!, broken, root, key, value, options),
+    ).rejects.toThrow("childSize must be positive");
+  });
+
+  it("validates specs again after they change", async () => {
+    const options = { validateSpec: true };
+    const spec = withInner({});
+    expect(await verifyMembership(proof, spec, root, key, value, options)).toBe(
+      true,
+    );
+    spec.innerSpec.childSize = -1;
+    expect(await verifyMembership(proof, spec, root, key, value, options)).toBe(
+      false,
+    );
+  });
+
+  it("accepts valid specs", async () => {
+    expect(
+      await verifyMembership(proof, iavlSpec, root, key, value, {
+        validateSpec: true,
+      }),
+    ).toBe(true);
+  });
+});
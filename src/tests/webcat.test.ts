@@ -2,8 +2,19 @@ import leavesData from "../../testdata/webcat/leaves.json";
 
 import { describe, expect, it } from "vitest";
 
+import { VerificationErrorCode } from "../errors";
+import { JellyfishMerkleTree } from "../jmt";
 import { calculateExistenceRoot } from "../proofs";
-import { verifyWebcatProof, webcatSpec } from "../webcat";
+import {
+  createWebcatLeavesFile,
+  verifyWebcatDomain,
+  verifyWebcatDomainSync,
+  verifyWebcatProof,
+  verifyWebcatProofSync,
+  verifyWebcatRootProof,
+  verifyWebcatRootProofSync,
+  webcatSpec,
+} from "../webcat";
 import { CommitmentProof } from "../proto/cosmos/ics23/v1/proofs";
 import { fromHex, toHex } from "./testhelpers";
 
@@ -42,6 +53,21 @@ describe("verifyWebcatProof", () => {
     await expect(verifyWebcatProof(tamperedLeaves)).resolves.toBe(false);
   });
 
+  it("verifies synchronously with the same results", async () => {
+    const tampered = {
+      ...leavesData,
+      proof: {
+        ...leavesData.proof,
+        canonical_root_hash:
+          "00" + leavesData.proof.canonical_root_hash.slice(2),
+      },
+    };
+
+    expect(verifyWebcatProofSync(leavesData)).toEqual(leavesData.leaves);
+    expect(verifyWebcatProofSync(tampered)).toBe(false);
+    await expect(verifyWebcatProof(tampered)).resolves.toBe(false);
+  });
+
   it("exposes the webcat spec for manual validation", async () => {
     const proofBytes = leavesData.proof.merkle_proof.proof_bytes[0];
     const proof = CommitmentProof.decode(fromHex(proofBytes));
@@ -55,3 +81,218 @@ describe("verifyWebcatProof", () => {
     expect(proof.exist?.leaf?.prefix).toEqual(webcatSpec.leafSpec?.prefix);
   });
 });
+
+describe("verifyWebcatProof proof chains", () => {
+  const [leafProof, appProof] = leavesData.proof.merkle_proof.proof_bytes;
+  const withProofBytes = (
+    proofBytes: string[],
+    key = leavesData.proof.merkle_proof.representative_key,
+  ) => ({
+    ...leavesData,
+    proof: {
+      ...leavesData.proof,
+      merkle_proof: { proof_bytes: proofBytes, representative_key: key },
+    },
+  });
+  const encode = (proof: CommitmentProof): string =>
+    toHex(CommitmentProof.encode(proof).finish());
+
+  it("requires a proof of the representative key", async () => {
+    await expect(verifyWebcatProof(withProofBytes([appProof]))).resolves.toBe(
+      false,
+    );
+    expect(
+      await verifyWebcatRootProof(withProofBytes([appProof]).proof),
+    ).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.MALFORMED_PROOF,
+      hop: undefined,
+    });
+
+    const [otherKey] = leavesData.leaves[0];
+    expect(
+      verifyWebcatRootProofSync(
+        withProofBytes([leafProof, appProof], otherKey).proof,
+      ),
+    ).toMatchObject({
+      ok: false,
+      code: VerificationErrorCode.KEY_MISMATCH,
+      hop: 0,
+    });
+    expect(verifyWebcatRootProofSync(leavesData.proof)).toEqual({ ok: true });
+  });
+
+  it("rejects a leaf proof from another tree", async () => {
+    const other = createWebcatLeavesFile([["canonical/example.com", "00"]]);
+    const [otherLeafProof] = other.proof.merkle_proof.proof_bytes;
+
+    await expect(
+      verifyWebcatProof(withProofBytes([otherLeafProof, appProof])),
+    ).resolves.toBe(false);
+  });
+
+  it("rejects extra and out of order entries", async () => {
+    const otherLeaf = createWebcatLeavesFile(leavesData.leaves, {
+      key: leavesData.leaves[0][0],
+    }).proof.merkle_proof.proof_bytes[0];
+    await expect(
+      verifyWebcatProof(
+        withProofBytes([otherLeaf, appProof], leavesData.leaves[0][0]),
+      ),
+    ).resolves.toEqual(leavesData.leaves);
+
+    for (const proofBytes of [
+      [leafProof, appProof, appProof],
+      [otherLeaf, leafProof, appProof],
+      [appProof, leafProof],
+      [leafProof, appProof, ""],
+    ]) {
+      await expect(verifyWebcatProof(withProofBytes(proofBytes))).resolves.toBe(
+        false,
+      );
+    }
+  });
+
+  it("rejects malformed entries", async () => {
+    const proof = CommitmentProof.decode(fromHex(leafProof));
+    const smuggled = encode({
+      ...proof,
+      nonexist: { key: fromHex("00"), left: proof.exist },
+    });
+    const { exist } = proof;
+
+    for (const proofBytes of [
+      [smuggled, appProof],
+      [encode({ batch: { entries: [{ exist }] } }), appProof],
+      ["zz", appProof],
+    ]) {
+      expect(verifyWebcatProofSync(withProofBytes(proofBytes))).toBe(false);
+    }
+  });
+
+  it("tells which entry failed", () => {
+    const cases = [
+      [
+        [leafProof, appProof, appProof],
+        2,
+        VerificationErrorCode.VALUE_MISMATCH,
+      ],
+      [[leafProof, leafProof], 1, VerificationErrorCode.VALUE_MISMATCH],
+      [["zz", appProof], 0, VerificationErrorCode.MALFORMED_PROOF],
+      [[leafProof, ""], 1, VerificationErrorCode.MALFORMED_PROOF],
+    ] as const;
+    for (const [proofBytes, hop, code] of cases) {
+      expect(
+        verifyWebcatRootProofSync(withProofBytes([...proofBytes]).proof),
+      ).toMatchObject({ ok: false, hop, code });
+    }
+  });
+});
+
+describe("verifyWebcatDomain", () => {
+  // the canonical tree of the real file
+  const tree = new JellyfishMerkleTree();
+  for (const [key, value] of leavesData.leaves) {
+    tree.set(
+      new TextEncoder().encode(key.replace(/^canonical\//, "")),
+      fromHex(value),
+    );
+  }
+  const domainProof = (domain: string, enrolled: boolean): string => {
+    const key = new TextEncoder().encode(domain);
+    const proof = enrolled
+      ? tree.getMembershipProof(key)
+      : tree.getNonMembershipProof(key);
+    return toHex(CommitmentProof.encode(proof).finish());
+  };
+  const [domain, value] = leavesData.leaves[1];
+  const link = {
+    canonicalRootHash: leavesData.proof.canonical_root_hash,
+    appHash: leavesData.proof.app_hash,
+  };
+
+  it("proves an enrolled domain", async () => {
+    const proof = domainProof(".re.nym.testapp", true);
+
+    await expect(
+      verifyWebcatDomain(domain, proof, leavesData.proof),
+    ).resolves.toEqual({ domain, enrolled: true, value, ...link });
+    // the canonical prefix is optional
+    expect(
+      verifyWebcatDomainSync(".re.nym.testapp", proof, leavesData.proof),
+    ).toEqual({ domain: ".re.nym.testapp", enrolled: true, value, ...link });
+  });
+
+  it("proves a domain is not enrolled", async () => {
+    const proof = domainProof("example.com", false);
+
+    await expect(
+      verifyWebcatDomain("example.com", proof, leavesData.proof),
+    ).resolves.toEqual({ domain: "example.com", enrolled: false, ...link });
+  });
+
+  it("rejects proofs for other domains", async () => {
+    const enrolled = domainProof(".re.nym.testapp", true);
+    const missing = domainProof("example.com", false);
+
+    await expect(
+      verifyWebcatDomain(leavesData.leaves[0][0], enrolled, leavesData.proof),
+    ).resolves.toBe(false);
+    await expect(
+      verifyWebcatDomain(domain, missing, leavesData.proof),
+    ).resolves.toBe(false);
+  });
+
+  it("rejects a broken link to the app hash", async () => {
+    const proof = domainProof(".re.nym.testapp", true);
+    const tampered = {
+      ...leavesData.proof,
+      app_hash: "00" + leavesData.proof.app_hash.slice(2),
+    };
+    const otherRoot = createWebcatLeavesFile([["example.com", "00"]]).proof;
+
+    expect(verifyWebcatDomainSync(domain, proof, tampered)).toBe(false);
+    expect(verifyWebcatDomainSync(domain, proof, otherRoot)).toBe(false);
+    expect(verifyWebcatDomainSync(domain, "zz", leavesData.proof)).toBe(false);
+  });
+});
+
+describe("createWebcatLeavesFile", () => {
+  it("reproduces the canonical tree of a real file", () => {
+    const file = createWebcatLeavesFile(leavesData.leaves);
+
+    expect(file.leaves).toEqual(leavesData.leaves);
+    expect(file.proof.canonical_root_hash).toBe(
+      leavesData.proof.canonical_root_hash,
+    );
+    expect(file.proof.merkle_proof).toEqual(
+      expect.objectContaining({
+        representative_key: leavesData.proof.merkle_proof.representative_key,
+      }),
+    );
+    expect(file.proof.merkle_proof.proof_bytes[0]).toBe(
+      leavesData.proof.merkle_proof.proof_bytes[0],
+    );
+  });
+
+  it("creates files that verify", async () => {
+    const leaves = Array.from(
+      { length: 20 },
+      (_, i) =>
+        [`canonical/example${i}.com`, `0a20${"ab".repeat(32)}`] as const,
+    );
+    const file = createWebcatLeavesFile(leaves, {
+      blockHeight: 7,
+      key: "canonical/example3.com",
+      appState: [[fromHex("01"), fromHex("02")]],
+    });
+
+    expect(file.block_height).toBe(7);
+    await expect(verifyWebcatProof(file)).resolves.toEqual(leaves);
+
+    const [leafProof] = file.proof.merkle_proof.proof_bytes;
+    const { exist } = CommitmentProof.decode(fromHex(leafProof));
+    expect(exist!.key).toEqual(new TextEncoder().encode("example3.com"));
+    expect(() => createWebcatLeavesFile([])).toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import { ProofSpec } from "./proto/cosmos/ics23/v1/proofs";
+
+// TraceSide tells which neighbor of a non-existence proof a step belongs to
+export type TraceSide = "left" | "right";
+
+export interface LeafTraceStep {
+  readonly type: "leaf";
+  readonly side?: TraceSide;
+  readonly prefix: Uint8Array;
+  // key and value as hashed, i.e. after prehashing and length prefixing
+  readonly key: Uint8Array;
+  readonly value: Uint8Array;
+  readonly output: Uint8Array;
+}
+
+export interface InnerTraceStep {
+  readonly type: "inner";
+  readonly side?: TraceSide;
+  // position of the InnerOp in the proof path, 0 is closest to the leaf
+  readonly depth: number;
+  readonly prefix: Uint8Array;
+  readonly child: Uint8Array;
+  readonly suffix: Uint8Array;
+  readonly output: Uint8Array;
+  // which child of the inner node this step hashes, derived from the padding.
+  // undefined if no spec is known or the padding matches no branch.
+  readonly branch?: number;
+}
+
+export type TraceStep = LeafTraceStep | InnerTraceStep;
+
+// VerificationTrace collects every hashing step of a verification.
+// spec is used to derive branch indexes when the call itself takes no spec,
+// as with calculateExistenceRoot.
+export interface VerificationTrace {
+  readonly spec?: ProofSpec;
+  readonly steps: TraceStep[];
+}
+
+// TraceContext tells the verification logic where to record its steps
+export interface TraceContext {
+  readonly trace: VerificationTrace;
+  // takes precedence over the spec of the trace
+  readonly spec?: ProofSpec;
+  readonly side?: TraceSide;
+}
+
+export function createTrace(spec?: ProofSpec): VerificationTrace {
+  return { spec, steps: [] };
+}
+
+export interface TraceStepJson {
+  readonly type: "leaf" | "inner";
+  readonly side?: TraceSide;
+  readonly depth?: number;
+  readonly prefix: string;
+  readonly key?: string;
+  readonly value?: string;
+  readonly child?: string;
+  readonly suffix?: string;
+  readonly output: string;
+  readonly branch?: number | null;
+}
+
+export interface VerificationTraceJson {
+  readonly steps: readonly TraceStepJson[];
+}
+
+// traceToJson encodes all bytes as lowercase hex, so that
+// JSON.stringify(traceToJson(trace)) can be diffed against other implementations
+export function traceToJson(trace: VerificationTrace): VerificationTraceJson {
+  const steps = trace.steps.map((step): TraceStepJson => {
+    const side = step.side ? { side: step.side } : {};
+    if (step.type === "leaf") {
+      return {
+        type: step.type,
+        ...side,
+        prefix: toHex(step.prefix),
+        key: toHex(step.key),
+        value: toHex(step.value),
+        output: toHex(step.output),
+      };
+    }
+    return {
+      type: step.type,
+      ...side,
+      depth: step.depth,
+      prefix: toHex(step.prefix),
+      child: toHex(step.child),
+      suffix: toHex(step.suffix),
+      output: toHex(step.output),
+      branch: step.branch ?? null,
+    };
+  });
+  return { steps };
+}
+
+function toHex(data: Uint8Array): string {
+  return Array.from(data, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,209 @@
+import { VerificationError, VerificationErrorCode } from "./errors";
+import {
+  HashOp,
+  LeafOp,
+  LengthOp,
+  ProofSpec,
+} from "./proto/cosmos/ics23/v1/proofs";
+
+export enum ProofSpecFindingCode {
+  MISSING_LEAF_SPEC = "MISSING_LEAF_SPEC",
+  MISSING_INNER_SPEC = "MISSING_INNER_SPEC",
+  // a hash or length op is unknown, or NO_HASH where a hash is required
+  INVALID_HASH_OP = "INVALID_HASH_OP",
+  INVALID_LENGTH_OP = "INVALID_LENGTH_OP",
+  CHILD_ORDER_NOT_PERMUTATION = "CHILD_ORDER_NOT_PERMUTATION",
+  TOO_FEW_CHILDREN = "TOO_FEW_CHILDREN",
+  INVALID_CHILD_SIZE = "INVALID_CHILD_SIZE",
+  INVALID_PREFIX_LENGTHS = "INVALID_PREFIX_LENGTHS",
+  EMPTY_CHILD_SIZE_MISMATCH = "EMPTY_CHILD_SIZE_MISMATCH",
+  // keys are compared prehashed, but there is no prehash
+  PREHASH_KEY_MISSING = "PREHASH_KEY_MISSING",
+  INVALID_DEPTH = "INVALID_DEPTH",
+  // without a leaf prefix inner nodes can't be told apart from leaves
+  NO_DOMAIN_SEPARATION = "NO_DOMAIN_SEPARATION",
+}
+
+export interface ProofSpecFinding {
+  // errors make verification unsound or impossible, warnings are weaknesses
+  readonly severity: "error" | "warning";
+  readonly code: ProofSpecFindingCode;
+  // path of the offending field, e.g. "innerSpec.childOrder"
+  readonly field: string;
+  readonly message: string;
+}
+
+type Report = (
+  code: ProofSpecFindingCode,
+  field: string,
+  message: string,
+  severity?: "error" | "warning",
+) => void;
+
+// validateProofSpec checks that spec is consistent. An empty list means no
+// problems were found.
+export function validateProofSpec(spec: ProofSpec): ProofSpecFinding[] {
+  const findings: ProofSpecFinding[] = [];
+  const report: Report = (code, field, message, severity = "error") => {
+    findings.push({ severity, code, field, message });
+  };
+
+  const { leafSpec, innerSpec } = spec;
+  if (!leafSpec) {
+    report(
+      ProofSpecFindingCode.MISSING_LEAF_SPEC,
+      "leafSpec",
+      "Spec must include leafSpec",
+    );
+  } else {
+    validateLeafSpec(leafSpec, report);
+    if (
+      spec.prehashKeyBeforeComparison &&
+      leafSpec.prehashKey === HashOp.NO_HASH
+    ) {
+      report(
+        ProofSpecFindingCode.PREHASH_KEY_MISSING,
+        "prehashKeyBeforeComparison",
+        "Keys are prehashed before comparison, but leafSpec.prehashKey is NO_HASH",
+      );
+    }
+  }
+
+  if (!innerSpec) {
+    report(
+      ProofSpecFindingCode.MISSING_INNER_SPEC,
+      "innerSpec",
+      "Spec must include innerSpec",
+    );
+  } else {
+    if (!isHashOp(innerSpec.hash) || innerSpec.hash === HashOp.NO_HASH) {
+      report(
+        ProofSpecFindingCode.INVALID_HASH_OP,
+        "innerSpec.hash",
+        `Inner nodes need a hash, got ${innerSpec.hash}`,
+      );
+    }
+
+    const order = innerSpec.childOrder || [];
+    if (order.length < 2) {
+      report(
+        ProofSpecFindingCode.TOO_FEW_CHILDREN,
+        "innerSpec.childOrder",
+        `Inner nodes need at least 2 children, got ${order.length}`,
+      );
+    }
+    const sorted = [...order].sort((a, b) => a - b);
+    if (sorted.some((branch, i) => branch !== i)) {
+      report(
+        ProofSpecFindingCode.CHILD_ORDER_NOT_PERMUTATION,
+        "innerSpec.childOrder",
+        `childOrder must be a permutation of 0..${order.length - 1}, got [${order}]`,
+      );
+    }
+
+    const childSize = innerSpec.childSize || 0;
+    if (childSize <= 0) {
+      report(
+        ProofSpecFindingCode.INVALID_CHILD_SIZE,
+        "innerSpec.childSize",
+        `childSize must be positive, got ${childSize}`,
+      );
+    }
+
+    const minPrefix = innerSpec.minPrefixLength || 0;
+    const maxPrefix = innerSpec.maxPrefixLength || 0;
+    if (minPrefix < 0 || maxPrefix < 0 || minPrefix > maxPrefix) {
+      report(
+        ProofSpecFindingCode.INVALID_PREFIX_LENGTHS,
+        "innerSpec.minPrefixLength",
+        `Prefix lengths must satisfy 0 <= min <= max, got ${minPrefix} and ${maxPrefix}`,
+      );
+    }
+
+    const emptyChild = innerSpec.emptyChild || new Uint8Array();
+    if (emptyChild.length > 0 && emptyChild.length !== childSize) {
+      report(
+        ProofSpecFindingCode.EMPTY_CHILD_SIZE_MISMATCH,
+        "innerSpec.emptyChild",
+        `emptyChild has ${emptyChild.length} bytes, but childSize is ${childSize}`,
+      );
+    }
+  }
+
+  const minDepth = spec.minDepth || 0;
+  const maxDepth = spec.maxDepth || 0;
+  // a maxDepth of 0 means unlimited
+  if (minDepth < 0 || maxDepth < 0 || (maxDepth > 0 && minDepth > maxDepth)) {
+    report(
+      ProofSpecFindingCode.INVALID_DEPTH,
+      "minDepth",
+      `Depths must satisfy 0 <= min <= max, got ${minDepth} and ${maxDepth}`,
+    );
+  }
+
+  return findings;
+}
+
+// ensureValidSpec throws a VerificationError if validateProofSpec reports any
+// error
+export function ensureValidSpec(spec: ProofSpec): void {
+  const finding = validateProofSpec(spec).find(
+    ({ severity }) => severity === "error",
+  );
+  if (finding) {
+    throw new VerificationError(
+      VerificationErrorCode.INVALID_SPEC,
+      finding.message,
+      { field: finding.field },
+    );
+  }
+}
+
+function validateLeafSpec(leaf: LeafOp, report: Report): void {
+  if (!isHashOp(leaf.hash) || leaf.hash === HashOp.NO_HASH) {
+    report(
+      ProofSpecFindingCode.INVALID_HASH_OP,
+      "leafSpec.hash",
+      `Leaves need a hash, got ${leaf.hash}`,
+    );
+  }
+  if (!isHashOp(leaf.prehashKey)) {
+    report(
+      ProofSpecFindingCode.INVALID_HASH_OP,
+      "leafSpec.prehashKey",
+      `Unknown hash op ${leaf.prehashKey}`,
+    );
+  }
+  if (!isHashOp(leaf.prehashValue)) {
+    report(
+      ProofSpecFindingCode.INVALID_HASH_OP,
+      "leafSpec.prehashValue",
+      `Unknown hash op ${leaf.prehashValue}`,
+    );
+  }
+  if (
+    leaf.length === undefined ||
+    leaf.length === LengthOp.UNRECOGNIZED ||
+    !(leaf.length in LengthOp)
+  ) {
+    report(
+      ProofSpecFindingCode.INVALID_LENGTH_OP,
+      "leafSpec.length",
+      `Unknown length op ${leaf.length}`,
+    );
+  }
+  if (!leaf.prefix?.length) {
+    report(
+      ProofSpecFindingCode.NO_DOMAIN_SEPARATION,
+      "leafSpec.prefix",
+      "Without a leaf prefix inner nodes could pass as leaves",
+      "warning",
+    );
+  }
+}
+
+function isHashOp(hashOp: HashOp | undefined): boolean {
+  return (
+    hashOp !== undefined && hashOp !== HashOp.UNRECOGNIZED && hashOp in HashOp
+  );
+}
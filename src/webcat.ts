@@ -1,7 +1,28 @@
-import { doHash } from "./ops";
-import { verifyExistence } from "./proofs";
+import { ChainedVerificationResult, verifyChainedSteps } from "./chained";
+import {
+  BlockHeader,
+  headerHash,
+  LightBlock,
+  verifyHeaderAppHash,
+} from "./cometbft";
+import {
+  failed,
+  VerificationError,
+  VerificationErrorCode,
+  VerificationErrorDetail,
+} from "./errors";
+import { HashSteps, hashSteps, runHashSteps, runHashStepsSync } from "./hasher";
+import {
+  verifyMembershipDetailedSteps,
+  verifyNonMembershipDetailedSteps,
+} from "./ics23";
+import { JellyfishMerkleTree, jmtOptions } from "./jmt";
+import { LightClientOptions, verifyLightBlocks } from "./lightclient";
+import { decodeProof, ProofLimits, resolveLimits } from "./limits";
+import { VerifyOptions } from "./proofs";
 import {
   CommitmentProof,
+  ExistenceProof,
   HashOp,
   LengthOp,
   ProofSpec,
@@ -10,19 +31,41 @@ import { bytesEqual } from "./specs";
 
 export type WebcatLeaf = readonly [string, string];
 
+// WebcatRootProof links the canonical root to the app hash
+export interface WebcatRootProof {
+  readonly app_hash: string;
+  readonly canonical_root_hash: string;
+  readonly merkle_proof: {
+    readonly proof_bytes: readonly string[];
+    // key of the leaf the first proof is for
+    readonly representative_key: string;
+  };
+}
+
 export interface WebcatLeavesFile {
   readonly block_height: number;
   readonly leaves: readonly (WebcatLeaf | readonly string[])[];
-  readonly proof: {
-    readonly app_hash: string;
-    readonly canonical_root_hash: string;
-    readonly merkle_proof: {
-      readonly proof_bytes: readonly string[];
-    };
-  };
+  readonly proof: WebcatRootProof;
 }
 
-function fromHex(hexstring: string): Uint8Array {
+// WebcatDomainResult is the verified state of a single domain. Values are hex
+// encoded like in WebcatLeaf.
+export type WebcatDomainResult =
+  | {
+      readonly domain: string;
+      readonly enrolled: true;
+      readonly value: string;
+      readonly canonicalRootHash: string;
+      readonly appHash: string;
+    }
+  | {
+      readonly domain: string;
+      readonly enrolled: false;
+      readonly canonicalRootHash: string;
+      readonly appHash: string;
+    };
+
+export function fromHex(hexstring: string): Uint8Array {
   if (hexstring.length % 2 !== 0) {
     throw new Error("hex string length must be a multiple of 2");
   }
@@ -38,11 +81,13 @@ function fromHex(hexstring: string): Uint8Array {
   return new Uint8Array(listOfInts);
 }
 
+export function toHex(data: Uint8Array): string {
+  return Array.from(data, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
 const utf8Encoder = new TextEncoder();
 
-const leafPrefix = utf8Encoder.encode("JMT::LeafNode");
-const innerPrefix = utf8Encoder.encode("JMT::IntrnalNode");
-const placeholderMarker = "SPARSE_MERKLE_PLACEHOLDER_HASH__" satisfies string;
+const { leafPrefix, innerPrefix } = jmtOptions;
 
 export const webcatSpec: ProofSpec = {
   leafSpec: {
@@ -58,22 +103,78 @@ export const webcatSpec: ProofSpec = {
     childSize: 32,
     minPrefixLength: innerPrefix.length,
     maxPrefixLength: innerPrefix.length,
-    emptyChild: new Uint8Array(),
+    emptyChild: jmtOptions.placeholder,
   },
   maxDepth: 256,
   minDepth: 0,
   prehashKeyBeforeComparison: true,
 };
 
-function decodeProof(hex: string): CommitmentProof {
-  return CommitmentProof.decode(fromHex(hex));
+// decodeHexProof decodes a hex encoded proof, checking its size before
+// decoding the hex
+function decodeHexProof(hex: string, limits: ProofLimits): CommitmentProof {
+  if (hex.length / 2 > limits.maxProofBytes) {
+    throw new VerificationError(
+      VerificationErrorCode.PROOF_TOO_LARGE,
+      "Proof exceeds maxProofBytes",
+      {
+        field: "maxProofBytes",
+        expected: limits.maxProofBytes,
+        actual: hex.length / 2,
+      },
+    );
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = fromHex(hex);
+  } catch (err) {
+    throw new VerificationError(
+      VerificationErrorCode.MALFORMED_PROOF,
+      `Cannot decode proof: ${err instanceof Error ? err.message : err}`,
+    );
+  }
+  return decodeProof(bytes, limits);
 }
 
-function placeholderHash(): Uint8Array {
-  return utf8Encoder.encode(placeholderMarker);
+// ensureLeafLimits bounds the leaves of a file like the entries, keys and
+// values of a batch proof
+function ensureLeafLimits(
+  leaves: readonly WebcatLeaf[],
+  limits: ProofLimits,
+): void {
+  const exceeds = (
+    code: VerificationErrorCode,
+    field: keyof ProofLimits,
+    actual: number,
+  ) => {
+    if (actual > limits[field]) {
+      throw new VerificationError(code, `Leaves exceed ${field}`, {
+        field,
+        expected: limits[field],
+        actual,
+      });
+    }
+  };
+  exceeds(
+    VerificationErrorCode.TOO_MANY_ENTRIES,
+    "maxBatchEntries",
+    leaves.length,
+  );
+  for (const [key, valueHex] of leaves) {
+    exceeds(
+      VerificationErrorCode.KEY_TOO_LONG,
+      "maxKeyLength",
+      utf8Encoder.encode(canonicalizeKey(key)).length,
+    );
+    exceeds(
+      VerificationErrorCode.VALUE_TOO_LONG,
+      "maxValueLength",
+      valueHex.length / 2,
+    );
+  }
 }
 
-function canonicalizeKey(key: string): string {
+export function canonicalizeKey(key: string): string {
   return key.replace(/^canonical\//, "");
 }
 
@@ -85,26 +186,26 @@ function normalizeLeaf(leaf: WebcatLeaf | readonly string[]): WebcatLeaf {
   return [leaf[0], leaf[1]];
 }
 
-async function leafHash(key: string, valueHex: string): Promise<Uint8Array> {
-  const hashedKey = await doHash(
+function* leafHash(key: string, valueHex: string): HashSteps<Uint8Array> {
+  const hashedKey = yield* hashSteps(
     HashOp.SHA256,
     utf8Encoder.encode(canonicalizeKey(key)),
   );
-  const hashedValue = await doHash(HashOp.SHA256, fromHex(valueHex));
+  const hashedValue = yield* hashSteps(HashOp.SHA256, fromHex(valueHex));
   const preimage = new Uint8Array([
     ...leafPrefix,
     ...hashedKey,
     ...hashedValue,
   ]);
-  return doHash(HashOp.SHA256, preimage);
+  return yield* hashSteps(HashOp.SHA256, preimage);
 }
 
-async function combineChildren(
+function* combineChildren(
   left: Uint8Array,
   right: Uint8Array,
-): Promise<Uint8Array> {
+): HashSteps<Uint8Array> {
   const preimage = new Uint8Array([...innerPrefix, ...left, ...right]);
-  return doHash(HashOp.SHA256, preimage);
+  return yield* hashSteps(HashOp.SHA256, preimage);
 }
 
 interface PreparedLeaf {
@@ -119,26 +220,26 @@ function bitIsSet(hash: Uint8Array, depth: number): boolean {
   return ((byte >> bitIndex) & 1) === 1;
 }
 
-async function prepareLeaves(
+function* prepareLeaves(
   leaves: readonly WebcatLeaf[],
-): Promise<PreparedLeaf[]> {
+): HashSteps<PreparedLeaf[]> {
   const prepared: PreparedLeaf[] = [];
   for (const [key, valueHex] of leaves) {
-    const keyHash = await doHash(
+    const keyHash = yield* hashSteps(
       HashOp.SHA256,
       utf8Encoder.encode(canonicalizeKey(key)),
     );
-    const nodeHash = await leafHash(key, valueHex);
+    const nodeHash = yield* leafHash(key, valueHex);
     prepared.push({ keyHash, nodeHash });
   }
   return prepared;
 }
 
-async function buildJmtRoot(
+function* buildJmtRoot(
   placeholder: Uint8Array,
   leaves: readonly PreparedLeaf[],
   depth = 0,
-): Promise<Uint8Array> {
+): HashSteps<Uint8Array> {
   if (leaves.length === 0) {
     return placeholder;
   }
@@ -155,72 +256,206 @@ async function buildJmtRoot(
   }
 
   const leftHash = left.length
-    ? await buildJmtRoot(placeholder, left, depth + 1)
+    ? yield* buildJmtRoot(placeholder, left, depth + 1)
     : placeholder;
   const rightHash = right.length
-    ? await buildJmtRoot(placeholder, right, depth + 1)
+    ? yield* buildJmtRoot(placeholder, right, depth + 1)
     : placeholder;
 
-  return combineChildren(leftHash, rightHash);
+  return yield* combineChildren(leftHash, rightHash);
 }
 
-async function reconstructCanonicalRoot(
+function* reconstructCanonicalRoot(
   leaves: readonly (WebcatLeaf | readonly string[])[],
-): Promise<Uint8Array> {
-  const placeholder = placeholderHash();
+): HashSteps<Uint8Array> {
+  const { placeholder } = jmtOptions;
   if (leaves.length === 0) {
     return placeholder;
   }
 
-  const prepared = await prepareLeaves(leaves.map(normalizeLeaf));
-  return buildJmtRoot(placeholder, prepared);
+  const prepared = yield* prepareLeaves(leaves.map(normalizeLeaf));
+  return yield* buildJmtRoot(placeholder, prepared);
 }
 
-async function verifyCanonicalRootLink(
-  appHashHex: string,
-  canonicalRootHex: string,
-  proofBytes: readonly string[],
-): Promise<boolean> {
-  if (proofBytes.length === 0) {
-    return false;
+// verifyCanonicalRootLink checks that the proof_bytes of rootProof form a
+// chain from the representative leaf of the canonical tree up to the app hash.
+// Proofs are ordered from the leaf up, the first one must prove
+// representative_key, the root computed by each one must be the value proven
+// by the next, and the last one proves the canonical root under "canonical".
+// Every entry must be a plain existence proof, so nothing unverified can hide
+// in the file. Failures tell which entry of proof_bytes is at fault in hop.
+function* verifyCanonicalRootLink(
+  rootProof: WebcatRootProof,
+  limits: ProofLimits,
+): HashSteps<ChainedVerificationResult> {
+  const { proof_bytes: proofBytes, representative_key: representativeKey } =
+    rootProof.merkle_proof;
+  if (proofBytes.length < 2) {
+    return linkFailure(
+      undefined,
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Root proof must prove a leaf and the canonical root",
+    );
+  }
+  if (proofBytes.length > limits.maxBatchEntries) {
+    return linkFailure(
+      undefined,
+      VerificationErrorCode.TOO_MANY_ENTRIES,
+      "Root proof exceeds maxBatchEntries",
+      {
+        field: "maxBatchEntries",
+        expected: limits.maxBatchEntries,
+        actual: proofBytes.length,
+      },
+    );
+  }
+  if (typeof representativeKey !== "string") {
+    return linkFailure(
+      undefined,
+      VerificationErrorCode.MALFORMED_PROOF,
+      "Root proof has no representative key",
+    );
   }
 
-  const canonicalProof = decodeProof(proofBytes[proofBytes.length - 1]);
-  if (!canonicalProof.exist) {
-    return false;
+  const proofs: CommitmentProof[] = [];
+  const exists: ExistenceProof[] = [];
+  for (let hop = 0; hop < proofBytes.length; hop++) {
+    let proof: CommitmentProof;
+    try {
+      proof = decodeHexProof(proofBytes[hop], limits);
+    } catch (err) {
+      return { ...failed(err), hop };
+    }
+    const { exist, nonexist, batch, compressed } = proof;
+    if (nonexist || batch || compressed || !exist?.key || !exist.value) {
+      return linkFailure(
+        hop,
+        VerificationErrorCode.MALFORMED_PROOF,
+        "Root proof entries must be plain existence proofs",
+      );
+    }
+    proofs.push(proof);
+    exists.push(exist);
+  }
+
+  const leafKey = utf8Encoder.encode(canonicalizeKey(representativeKey));
+  if (!bytesEqual(exists[0].key, leafKey)) {
+    return linkFailure(
+      0,
+      VerificationErrorCode.KEY_MISMATCH,
+      "First proof is not for the representative key",
+      { expected: leafKey, actual: exists[0].key },
+    );
   }
+  const last = exists.length - 1;
+  const canonicalRoot = fromHex(rootProof.canonical_root_hash);
+  if (!bytesEqual(exists[last].value, canonicalRoot)) {
+    return linkFailure(
+      last,
+      VerificationErrorCode.VALUE_MISMATCH,
+      "Last proof does not prove the canonical root",
+      { expected: canonicalRoot, actual: exists[last].value },
+    );
+  }
+
+  // keys between the leaf and the app hash are whatever the proofs claim,
+  // the chain of values is what ties them together
+  const keyPath = exists.map((exist, hop) =>
+    hop === 0
+      ? leafKey
+      : hop === last
+        ? utf8Encoder.encode("canonical")
+        : exist.key,
+  );
+  return yield* verifyChainedSteps(
+    proofs,
+    proofs.map(() => webcatSpec),
+    fromHex(rootProof.app_hash),
+    keyPath.reverse(),
+    exists[0].value,
+    { limits },
+  );
+}
+
+function linkFailure(
+  hop: number | undefined,
+  code: VerificationErrorCode,
+  message: string,
+  detail: Omit<VerificationErrorDetail, "message"> = {},
+): ChainedVerificationResult {
+  return { ...failed(new VerificationError(code, message, detail)), hop };
+}
+
+// verifyWebcatRootProof checks that rootProof links its canonical root to its
+// app hash, and reports which entry of proof_bytes failed if it doesn't
+export async function verifyWebcatRootProof(
+  rootProof: WebcatRootProof,
+  options: VerifyOptions = {},
+): Promise<ChainedVerificationResult> {
+  return runHashSteps(
+    verifyWebcatRootProofSteps(rootProof, resolveLimits(options.limits)),
+    options.hasher,
+  );
+}
 
-  await verifyExistence(
-    canonicalProof.exist,
-    webcatSpec,
-    fromHex(appHashHex),
-    utf8Encoder.encode("canonical"),
-    fromHex(canonicalRootHex),
+export function verifyWebcatRootProofSync(
+  rootProof: WebcatRootProof,
+  options: VerifyOptions = {},
+): ChainedVerificationResult {
+  return runHashStepsSync(
+    verifyWebcatRootProofSteps(rootProof, resolveLimits(options.limits)),
+    options.hasher,
   );
+}
 
-  return true;
+function* verifyWebcatRootProofSteps(
+  rootProof: WebcatRootProof,
+  limits: ProofLimits,
+): HashSteps<ChainedVerificationResult> {
+  try {
+    return yield* verifyCanonicalRootLink(rootProof, limits);
+  } catch (err) {
+    return failed(err);
+  }
 }
 
 export async function verifyWebcatProof(
   data: WebcatLeavesFile,
+  options: VerifyOptions = {},
 ): Promise<readonly WebcatLeaf[] | false> {
+  return runHashSteps(
+    verifyWebcatProofSteps(data, resolveLimits(options.limits)),
+    options.hasher,
+  );
+}
+
+export function verifyWebcatProofSync(
+  data: WebcatLeavesFile,
+  options: VerifyOptions = {},
+): readonly WebcatLeaf[] | false {
+  return runHashStepsSync(
+    verifyWebcatProofSteps(data, resolveLimits(options.limits)),
+    options.hasher,
+  );
+}
+
+function* verifyWebcatProofSteps(
+  data: WebcatLeavesFile,
+  limits: ProofLimits,
+): HashSteps<readonly WebcatLeaf[] | false> {
   try {
     const normalizedLeaves = data.leaves.map(normalizeLeaf);
+    ensureLeafLimits(normalizedLeaves, limits);
 
-    const reconstructedRoot = await reconstructCanonicalRoot(normalizedLeaves);
+    const reconstructedRoot = yield* reconstructCanonicalRoot(normalizedLeaves);
     if (
       !bytesEqual(reconstructedRoot, fromHex(data.proof.canonical_root_hash))
     ) {
       return false;
     }
 
-    const canonicalLinkValid = await verifyCanonicalRootLink(
-      data.proof.app_hash,
-      data.proof.canonical_root_hash,
-      data.proof.merkle_proof.proof_bytes,
-    );
-
-    if (!canonicalLinkValid) {
+    const linked = yield* verifyCanonicalRootLink(data.proof, limits);
+    if (!linked.ok) {
       return false;
     }
 
@@ -229,3 +464,250 @@ export async function verifyWebcatProof(
     return false;
   }
 }
+
+// verifyWebcatDomain checks a single domain without the list of leaves.
+// proof is a hex encoded existence or non-existence proof of the domain under
+// the canonical root, and rootProof links that root to the app hash, e.g. the
+// proof of a leaves file. It returns false if anything fails to verify.
+export async function verifyWebcatDomain(
+  domain: string,
+  proof: string,
+  rootProof: WebcatRootProof,
+  options: VerifyOptions = {},
+): Promise<WebcatDomainResult | false> {
+  return runHashSteps(
+    verifyWebcatDomainSteps(
+      domain,
+      proof,
+      rootProof,
+      resolveLimits(options.limits),
+    ),
+    options.hasher,
+  );
+}
+
+export function verifyWebcatDomainSync(
+  domain: string,
+  proof: string,
+  rootProof: WebcatRootProof,
+  options: VerifyOptions = {},
+): WebcatDomainResult | false {
+  return runHashStepsSync(
+    verifyWebcatDomainSteps(
+      domain,
+      proof,
+      rootProof,
+      resolveLimits(options.limits),
+    ),
+    options.hasher,
+  );
+}
+
+function* verifyWebcatDomainSteps(
+  domain: string,
+  proofHex: string,
+  rootProof: WebcatRootProof,
+  limits: ProofLimits,
+): HashSteps<WebcatDomainResult | false> {
+  try {
+    const proof = decodeHexProof(proofHex, limits);
+    if (proof.batch || proof.compressed || !proof.exist === !proof.nonexist) {
+      return false;
+    }
+
+    const key = utf8Encoder.encode(canonicalizeKey(domain));
+    const canonicalRoot = fromHex(rootProof.canonical_root_hash);
+    const result = proof.exist
+      ? yield* verifyMembershipDetailedSteps(
+          proof,
+          webcatSpec,
+          canonicalRoot,
+          key,
+          proof.exist.value,
+          { limits },
+        )
+      : yield* verifyNonMembershipDetailedSteps(
+          proof,
+          webcatSpec,
+          canonicalRoot,
+          key,
+          { limits },
+        );
+    if (!result.ok) {
+      return false;
+    }
+
+    const linked = yield* verifyCanonicalRootLink(rootProof, limits);
+    if (!linked.ok) {
+      return false;
+    }
+
+    const link = {
+      canonicalRootHash: toHex(canonicalRoot),
+      appHash: toHex(fromHex(rootProof.app_hash)),
+    };
+    return proof.exist
+      ? { domain, enrolled: true, value: toHex(proof.exist.value), ...link }
+      : { domain, enrolled: false, ...link };
+  } catch {
+    return false;
+  }
+}
+
+// AnchoredWebcatResult is the outcome of verifyAnchoredWebcatProof and
+// verifyPinnedWebcatProof. On success the leaves are committed to by the
+// block at height, which the light client verified or the caller pinned.
+export type AnchoredWebcatResult =
+  | {
+      readonly ok: true;
+      readonly leaves: readonly WebcatLeaf[];
+      readonly height: bigint;
+      readonly blockHash: Uint8Array;
+      readonly code?: undefined;
+      readonly detail?: undefined;
+    }
+  | {
+      readonly ok: false;
+      readonly code: VerificationErrorCode;
+      readonly detail: VerificationErrorDetail;
+      readonly leaves?: undefined;
+    };
+
+// verifyAnchoredWebcatProof verifies data like verifyWebcatProof and anchors
+// its app hash in the chain: blocks are verified by a light client starting
+// from trusted, and the last of them, or trusted itself if there are none,
+// must be the header at data.block_height carrying data.proof.app_hash.
+export async function verifyAnchoredWebcatProof(
+  data: WebcatLeavesFile,
+  trusted: LightBlock,
+  blocks: readonly LightBlock[],
+  options: LightClientOptions & VerifyOptions,
+): Promise<AnchoredWebcatResult> {
+  const chain = await verifyLightBlocks(trusted, blocks, options);
+  if (!chain.ok) {
+    return { ok: false, code: chain.code, detail: chain.detail };
+  }
+  const { header } = (blocks[blocks.length - 1] ?? trusted).signedHeader;
+  return verifyWebcatProofAtHeader(data, header, options);
+}
+
+// verifyPinnedWebcatProof is like verifyAnchoredWebcatProof, but trusts
+// header if it hashes to blockHash, e.g. a block hash pinned from an
+// independent source, see verifyHeaderAppHash
+export async function verifyPinnedWebcatProof(
+  data: WebcatLeavesFile,
+  header: BlockHeader,
+  blockHash: Uint8Array,
+  options: VerifyOptions = {},
+): Promise<AnchoredWebcatResult> {
+  const pinned = verifyHeaderAppHash(
+    header,
+    blockHash,
+    fromHex(data.proof.app_hash),
+  );
+  if (!pinned.ok) {
+    return pinned;
+  }
+  return verifyWebcatProofAtHeader(data, header, options);
+}
+
+// verifyWebcatProofAtHeader verifies data against a trusted header, which
+// must be at data.block_height and carry data.proof.app_hash
+async function verifyWebcatProofAtHeader(
+  data: WebcatLeavesFile,
+  header: BlockHeader,
+  options: VerifyOptions,
+): Promise<AnchoredWebcatResult> {
+  const fail = (code: VerificationErrorCode, message: string) => {
+    const { detail } = new VerificationError(code, message);
+    return { ok: false, code, detail } as const;
+  };
+  if (header.height !== BigInt(data.block_height)) {
+    return fail(
+      VerificationErrorCode.HEADER_MISMATCH,
+      `Verified header is at height ${header.height}, not ${data.block_height}`,
+    );
+  }
+  if (!bytesEqual(header.appHash, fromHex(data.proof.app_hash))) {
+    return fail(
+      VerificationErrorCode.APP_HASH_MISMATCH,
+      "Verified header commits to another app hash",
+    );
+  }
+  const leaves = await verifyWebcatProof(data, options);
+  if (!leaves) {
+    return fail(
+      VerificationErrorCode.ROOT_MISMATCH,
+      "Leaves are not committed to by the app hash",
+    );
+  }
+  return {
+    ok: true,
+    leaves,
+    height: header.height,
+    blockHash: headerHash(header),
+  };
+}
+
+export interface WebcatLeavesFileOptions {
+  readonly blockHeight?: number;
+  // key of the leaf proven in the first proof_bytes entry, the last leaf by
+  // default
+  readonly key?: string;
+  // further entries of the app state tree, next to the canonical root
+  readonly appState?: Iterable<readonly [Uint8Array, Uint8Array]>;
+}
+
+// createWebcatLeavesFile builds the canonical tree over leaves and an app
+// state tree holding its root under "canonical", and returns a file that
+// verifyWebcatProof accepts
+export function createWebcatLeavesFile(
+  leaves: readonly (WebcatLeaf | readonly string[])[],
+  options: WebcatLeavesFileOptions = {},
+): WebcatLeavesFile {
+  const normalizedLeaves = leaves.map(normalizeLeaf);
+  if (normalizedLeaves.length === 0) {
+    throw new Error("Cannot create a webcat leaves file without leaves");
+  }
+  const key = options.key ?? normalizedLeaves[normalizedLeaves.length - 1][0];
+
+  const canonicalTree = new JellyfishMerkleTree();
+  for (const [leafKey, valueHex] of normalizedLeaves) {
+    canonicalTree.set(
+      utf8Encoder.encode(canonicalizeKey(leafKey)),
+      fromHex(valueHex),
+    );
+  }
+  const canonicalRoot = canonicalTree.rootHash();
+
+  const appTree = new JellyfishMerkleTree();
+  for (const [stateKey, value] of options.appState ?? []) {
+    appTree.set(stateKey, value);
+  }
+  appTree.set(utf8Encoder.encode("canonical"), canonicalRoot);
+
+  const encodeProof = (proof: CommitmentProof): string =>
+    toHex(CommitmentProof.encode(proof).finish());
+
+  return {
+    block_height: options.blockHeight ?? 0,
+    leaves: normalizedLeaves,
+    proof: {
+      app_hash: toHex(appTree.rootHash()),
+      canonical_root_hash: toHex(canonicalRoot),
+      merkle_proof: {
+        representative_key: key,
+        proof_bytes: [
+          encodeProof(
+            canonicalTree.getMembershipProof(
+              utf8Encoder.encode(canonicalizeKey(key)),
+            ),
+          ),
+          encodeProof(
+            appTree.getMembershipProof(utf8Encoder.encode("canonical")),
+          ),
+        ],
+      },
+    },
+  };
+}